@@ -1,124 +1,653 @@
 import { parse as babelParse } from "@babel/parser";
 import t from "@babel/types";
-import MagicString from "magic-string";
-
-const localsName = "__locals__";
-function getLocalsName(id: string) {
+import MagicString, { SourceMap } from "magic-string";
+import { posix } from "path";
+import {
+  CompileError,
+  Diagnostic,
+  SourceRange,
+  createDiagnostic,
+  error,
+  fromSyntaxError,
+  getRange,
+  warning,
+} from "./diagnostics.js";
+import { Scope, getPatternNames, hoistLexical, hoistVar } from "./scope.js";
+
+const mountName = "__mount__";
+const mainName = "__main__";
+const signaturesName = "__signatures__";
+const localsTypeName = "__Locals__";
+const appName = "__app__";
+const mainTypeName = "__Main__";
+/**
+ * The parameter of the setters of the locals object, reserved so that it
+ *  doesn't shadow the local being set.
+ */
+const valueName = "__value__";
+function getLocalsName(localsName: string, id: string) {
   return `(${localsName}.${id})`;
 }
 
+export const defaultAppModules = ["refina", "refina-core"];
+export const defaultLocalsName = "__locals__";
+/**
+ * The module that entry files import `onHmrDispose` and `getHmrData` from.
+ */
+export const runtimeModule = "refina-hmr/runtime";
+
+export type CompileTarget = "ts" | "js";
+
+export interface CompileOptions {
+  /**
+   * The path of the input file relative to the output modules, used as the
+   *  `sources` field of the generated source maps, and to rebase the
+   *  relative specifiers of the imports in the locals module and of
+   *  dynamic imports in the app mains.
+   *
+   * @default "in.ts"
+   */
+  filename?: string;
+  /**
+   * The identifier of the locals object in the generated modules.
+   *
+   * @default defaultLocalsName
+   */
+  localsName?: string;
+  /**
+   * Whether to emit type annotations. Defaults to `ts` if the filename has
+   *  a TypeScript extension.
+   */
+  target?: CompileTarget;
+  /**
+   * The modules whose `app` export is the Refina app entry, including
+   *  modules that re-export it.
+   *
+   * @default defaultAppModules
+   */
+  appModules?: string[];
+  /**
+   * The specifier of the locals module, relative to the main modules.
+   *  Used to import the type of the locals object in TypeScript outputs.
+   *
+   * @default "./locals"
+   */
+  localsModule?: string;
+  /**
+   * Identifies the entry file across reloads of the locals module, so that
+   *  the dispose hooks of the previous instance can be found.
+   *
+   * @default filename
+   */
+  hmrId?: string;
+  /**
+   * Export all the locals, instead of only the ones referenced by the app
+   *  mains. Useful to inspect the locals object when debugging.
+   *
+   * Note that only exported variables keep their values when the locals
+   *  module is reloaded.
+   *
+   * @default false
+   */
+  exportAllLocals?: boolean;
+}
+
 interface ParseResult {
   localsAst: t.Statement[];
   localsSrc: MagicString;
 
-  mainAst: t.CallExpression;
-  mainSrc: MagicString;
+  mains: MainPart[];
+
+  appImports: AppImports;
+}
+
+/**
+ * An `app(...)` or `app.use(...)(...)` call, which becomes a main module.
+ */
+interface MainPart {
+  ast: t.CallExpression;
+  src: MagicString;
+}
+
+/**
+ * The local names that the `app` export of Refina is imported as.
+ */
+interface AppImports {
+  /**
+   * Maps local names to the modules they are imported from, e.g. `app` in
+   *  `import { app } from "refina"`, or `refinaApp` in
+   *  `import { app as refinaApp } from "refina"`.
+   */
+  names: Map<string, string>;
+  /**
+   * E.g. `R` in `import * as R from "refina"`.
+   */
+  namespaces: Set<string>;
+}
+
+function getAppImports(
+  statements: t.Statement[],
+  appModules: string[]
+): AppImports {
+  const appImports: AppImports = { names: new Map(), namespaces: new Set() };
+  for (const statement of statements) {
+    if (
+      statement.type !== "ImportDeclaration" ||
+      statement.importKind === "type" ||
+      !appModules.includes(statement.source.value)
+    )
+      continue;
+    for (const specifier of statement.specifiers) {
+      switch (specifier.type) {
+        case "ImportSpecifier":
+          if (specifier.importKind === "type") break;
+          const imported =
+            specifier.imported.type === "Identifier"
+              ? specifier.imported.name
+              : specifier.imported.value;
+          if (imported === "app") {
+            appImports.names.set(specifier.local.name, statement.source.value);
+          }
+          break;
+        case "ImportNamespaceSpecifier":
+          appImports.namespaces.add(specifier.local.name);
+          break;
+        case "ImportDefaultSpecifier":
+          break;
+        default:
+          const _exhaustiveCheck: never = specifier;
+      }
+    }
+  }
+  return appImports;
 }
 
-function isCalleeApp(callee: t.Expression | t.V8IntrinsicIdentifier) {
-  if (callee.type === "V8IntrinsicIdentifier") return false;
-  if (callee.type === "Identifier") return callee.name === "app";
-  if (callee.type === "CallExpression") return isCalleeApp(callee.callee);
-  if (callee.type === "MemberExpression") return isCalleeApp(callee.object);
+/**
+ * Whether the member expression is `R.app` or `R["app"]`,
+ *  where `R` is a namespace import of Refina.
+ */
+function isNamespaceApp(ast: t.MemberExpression, appImports: AppImports) {
+  if (
+    ast.object.type !== "Identifier" ||
+    !appImports.namespaces.has(ast.object.name)
+  )
+    return false;
+  if (ast.computed) {
+    return (
+      ast.property.type === "StringLiteral" && ast.property.value === "app"
+    );
+  }
+  return ast.property.type === "Identifier" && ast.property.name === "app";
 }
 
-function parse(src: string): ParseResult {
-  const statements = babelParse(src, {
+function isCalleeApp(
+  callee: t.Expression | t.V8IntrinsicIdentifier,
+  appImports: AppImports
+): boolean {
+  switch (callee.type) {
+    case "Identifier":
+      return appImports.names.has(callee.name);
+    case "CallExpression":
+      return isCalleeApp(callee.callee, appImports);
+    case "MemberExpression":
+      return (
+        isNamespaceApp(callee, appImports) ||
+        isCalleeApp(callee.object, appImports)
+      );
+    default:
+      return false;
+  }
+}
+
+function parseStatements(src: string, filename: string) {
+  return babelParse(src, {
     sourceType: "module",
-    plugins: ["typescript"],
+    plugins: [
+      "typescript",
+      // The options argument of `import()`, e.g. `{ with: { type: "json" } }`.
+      "importAttributes",
+      ...(/\.[jt]sx$/.test(filename) ? (["jsx"] as const) : []),
+    ],
   }).program.body;
+}
 
-  for (let i = 0; i < statements.length; i++) {
-    const statement = statements[i];
-    if (
-      statement.type === "ExpressionStatement" &&
-      statement.expression.type === "CallExpression" &&
-      isCalleeApp(statement.expression.callee)
-    ) {
+function isAppCall(
+  statement: t.Statement,
+  appImports: AppImports
+): statement is t.ExpressionStatement & { expression: t.CallExpression } {
+  return (
+    statement.type === "ExpressionStatement" &&
+    statement.expression.type === "CallExpression" &&
+    isCalleeApp(statement.expression.callee, appImports)
+  );
+}
+
+/**
+ * Checks whether the source contains an `app(...)` call at the top level,
+ *  without throwing on syntax errors.
+ *
+ * @returns `null` if the source can't be parsed, so whether it is an entry
+ *  is unknown.
+ */
+export function isAppEntry(
+  src: string,
+  filename: string,
+  { appModules = defaultAppModules }: CompileOptions = {}
+): boolean | null {
+  // Most modules don't import Refina, so they are not parsed.
+  if (!appModules.some((module) => src.includes(module))) return false;
+  let statements: t.Statement[];
+  try {
+    statements = parseStatements(src, filename);
+  } catch {
+    return null;
+  }
+  const appImports = getAppImports(statements, appModules);
+  return statements.some((statement) => isAppCall(statement, appImports));
+}
+
+function parse(
+  src: string,
+  filename: string,
+  { appModules = defaultAppModules }: CompileOptions
+): ParseResult {
+  const statements = parseStatements(src, filename);
+  const appImports = getAppImports(statements, appModules);
+
+  const localsAst: t.Statement[] = [];
+  const localsSrc = new MagicString(src);
+  const mains: MainPart[] = [];
+  for (const statement of statements) {
+    if (isAppCall(statement, appImports)) {
+      const mainArg = statement.expression.arguments[0];
+      if (!mainArg || mainArg.type === "SpreadElement") {
+        throw error(
+          "invalid-app-call",
+          "The first argument of app() must be the app main",
+          statement.expression
+        );
+      }
       const mainStart = statement.expression.start!;
       const mainEnd = statement.expression.end!;
 
-      const localsSrc = new MagicString(src);
-      localsSrc.remove(mainStart, mainEnd);
+      localsSrc.remove(statement.start!, statement.end!);
 
       const mainSrc = new MagicString(src);
       mainSrc.remove(0, mainStart);
       mainSrc.remove(mainEnd, src.length);
 
-      return {
-        localsAst: statements.filter((_, j) => j !== i),
-        localsSrc,
-        mainAst: statement.expression,
-        mainSrc,
-      };
+      mains.push({ ast: statement.expression, src: mainSrc });
+    } else {
+      localsAst.push(statement);
     }
   }
-  throw new Error("No app() call found");
+  if (mains.length > 0) {
+    return { localsAst, localsSrc, mains, appImports };
+  }
+  throw error(
+    "no-app-call",
+    `No app() call found, app must be imported from ${appModules
+      .map((m) => JSON.stringify(m))
+      .join(" or ")}`
+  );
 }
 
 interface Binding {
   name: string;
   readonly: boolean;
+  /**
+   * The hash of the declaration source, used to decide whether the value
+   *  of a mutable variable can be kept when the locals module is reloaded.
+   *
+   * Not set for bindings that must always be taken from the new instance,
+   *  e.g. functions, which close over the new module scope.
+   */
+  signature?: string;
+  /**
+   * The source of the type annotation, e.g. `number` in `let a: number = 1`.
+   *
+   * If not set, the type is `typeof name`.
+   */
+  type?: string;
+  annotation?: HmrAnnotation;
+}
+
+/**
+ * The state policy of a `let` or `var` binding, set by a comment on its
+ *  declaration, e.g. `/** @hmr-keep *\/`:
+ *
+ * - `reset`: reinitialized whenever the locals module is reloaded.
+ * - `keep`: kept when the locals module is reloaded, even if the
+ *   declaration has changed.
+ * - `static`: exported as a plain value instead of a getter and a setter,
+ *   so it is readonly in the app mains, and reinitialized on reloads.
+ */
+export type HmrAnnotation = "reset" | "keep" | "static";
+
+const hmrAnnotations: readonly string[] = ["reset", "keep", "static"];
+
+/**
+ * Whether the comment is before the node, either on its own line or inline,
+ *  or after the node at the end of its last line, e.g.
+ *
+ * ```ts
+ * /** @hmr-keep *\/
+ * let a = 1;
+ * let b = 1; // @hmr-keep
+ * let c = 1, /* @hmr-keep *\/ d = 1;
+ * ```
+ */
+function isAnnotationOf(node: t.Node, comment: t.Comment, src: string) {
+  const lineStart = src.lastIndexOf("\n", comment.start! - 1) + 1;
+  const lineEnd = src.indexOf("\n", comment.end!);
+  const codeBefore = src.slice(lineStart, comment.start!).trim() !== "";
+  const codeAfter =
+    src.slice(comment.end!, lineEnd === -1 ? src.length : lineEnd).trim() !==
+    "";
+  if (comment.end! <= node.start!) return !codeBefore || codeAfter;
+  return (
+    codeBefore && !codeAfter && comment.loc!.start.line === node.loc!.end.line
+  );
 }
 
-function getBindings({ localsAst, localsSrc }: ParseResult): Binding[] {
+function getAnnotation(
+  nodes: t.Node[],
+  src: string,
+  diagnostics: Diagnostic[]
+): HmrAnnotation | undefined {
+  const comments = new Set<t.Comment>();
+  for (const node of nodes) {
+    for (const comment of [
+      ...(node.leadingComments ?? []),
+      ...(node.trailingComments ?? []),
+    ]) {
+      if (isAnnotationOf(node, comment, src)) comments.add(comment);
+    }
+  }
+  let annotation: HmrAnnotation | undefined;
+  for (const comment of comments) {
+    for (const [, name] of comment.value.matchAll(/@hmr-([\w-]+)/g)) {
+      if (!hmrAnnotations.includes(name)) {
+        diagnostics.push(
+          warning(
+            "unknown-hmr-annotation",
+            `Unknown annotation @hmr-${name}`,
+            comment
+          )
+        );
+        continue;
+      }
+      if (annotation && annotation !== name) {
+        diagnostics.push(
+          warning(
+            "conflicting-hmr-annotations",
+            `@hmr-${name} conflicts with @hmr-${annotation}, which is ignored`,
+            comment
+          )
+        );
+      }
+      annotation = name as HmrAnnotation;
+    }
+  }
+  return annotation;
+}
+
+function checkAnnotation(
+  nodes: t.Node[],
+  src: string,
+  diagnostics: Diagnostic[]
+) {
+  const annotation = getAnnotation(nodes, src, diagnostics);
+  if (annotation) {
+    diagnostics.push(
+      warning(
+        "ignored-hmr-annotation",
+        `@hmr-${annotation} only applies to let and var declarations`,
+        nodes[nodes.length - 1]
+      )
+    );
+  }
+}
+
+function hash(str: string) {
+  let h = 5381;
+  for (let i = 0; i < str.length; i++) {
+    h = (Math.imul(h, 33) ^ str.charCodeAt(i)) >>> 0;
+  }
+  return h.toString(36);
+}
+
+/**
+ * The properties that don't affect the meaning of the code.
+ */
+const ignoredKeys = new Set([
+  "start",
+  "end",
+  "loc",
+  "range",
+  "extra",
+  "leadingComments",
+  "innerComments",
+  "trailingComments",
+]);
+
+/**
+ * Hashes the AST without positions and comments, so that edits to only
+ *  whitespace and comments keep the fingerprint.
+ */
+function fingerprint(
+  nodes: t.Node[],
+  bindings: Binding[],
+  localsTypes: LocalsTypes | null = null
+) {
+  const ast = JSON.stringify(nodes, (key, value) =>
+    ignoredKeys.has(key) ? undefined : value
+  );
+  // The main modules depend on which names are locals, and the locals
+  //  module on which of them are exported.
+  const names = bindings.map(
+    (b) =>
+      `${b.readonly ? "readonly " : ""}${b.name}${
+        b.annotation ? ` @hmr-${b.annotation}` : ""
+      }`
+  );
+  // The main modules also import the types and copy the ambient declarations.
+  const types = localsTypes
+    ? `${localsTypes.names.join(",")}\n${localsTypes.ambient.join("\n")}`
+    : "";
+  return hash(`${ast}\n${names.join(",")}\n${types}`);
+}
+
+function unwrapExport(statement: t.Statement): t.Statement | null {
+  switch (statement.type) {
+    case "ExportNamedDeclaration":
+      return statement.declaration ?? null;
+    case "ExportDefaultDeclaration":
+      const declaration = statement.declaration;
+      if (
+        (declaration.type === "FunctionDeclaration" ||
+          declaration.type === "ClassDeclaration") &&
+        declaration.id
+      )
+        return declaration;
+      return null;
+    default:
+      return statement;
+  }
+}
+
+/**
+ * Whether the statement is a `declare` declaration, which has no runtime
+ *  value.
+ */
+function isAmbient(statement: t.Statement) {
+  return "declare" in statement && !!statement.declare;
+}
+
+/**
+ * Whether the namespace has a runtime value, i.e. it contains more than
+ *  types and ambient declarations.
+ */
+function isInstantiated(ast: t.TSModuleDeclaration): boolean {
+  if (ast.declare) return false;
+  if (ast.body.type === "TSModuleDeclaration") return isInstantiated(ast.body);
+  return ast.body.body.some((exportOrStatement) => {
+    if (
+      exportOrStatement.type === "ExportNamedDeclaration" &&
+      !exportOrStatement.declaration
+    )
+      return exportOrStatement.exportKind !== "type";
+    const statement = unwrapExport(exportOrStatement);
+    if (!statement) return false;
+    switch (statement.type) {
+      case "TSInterfaceDeclaration":
+      case "TSTypeAliasDeclaration":
+      case "ImportDeclaration":
+        return false;
+      case "TSModuleDeclaration":
+        return isInstantiated(statement);
+      case "TSImportEqualsDeclaration":
+        return statement.importKind !== "type";
+      default:
+        return !isAmbient(statement);
+    }
+  });
+}
+
+/**
+ * Whether the statement is a default export that can't be turned into a
+ *  local, e.g. `export default x` or `export { x as default }`, which would
+ *  conflict with the locals object.
+ */
+function isUnnamedDefaultExport(statement: t.Statement) {
+  if (statement.type === "ExportDefaultDeclaration")
+    return !unwrapExport(statement);
+  return (
+    statement.type === "ExportNamedDeclaration" &&
+    statement.specifiers.some((specifier) =>
+      specifier.exported.type === "Identifier"
+        ? specifier.exported.name === "default"
+        : specifier.exported.value === "default"
+    )
+  );
+}
+
+function getBindings(
+  { localsAst, localsSrc, appImports }: ParseResult,
+  typed: boolean,
+  diagnostics: Diagnostic[]
+): Binding[] {
   const bindings: Binding[] = [];
-  for (const statement of localsAst) {
-    if (statement.type === "VariableDeclaration") {
+  for (const exportOrStatement of localsAst) {
+    if (isUnnamedDefaultExport(exportOrStatement)) {
+      throw error(
+        "entry-default-export",
+        "The default export of an app entry file is the locals object, use a named declaration or a named export instead",
+        exportOrStatement
+      );
+    }
+    const statement = unwrapExport(exportOrStatement);
+    if (!statement) continue;
+    const ambient = isAmbient(statement);
+    if (
+      ambient ||
+      statement.type !== "VariableDeclaration" ||
+      statement.kind === "const"
+    ) {
+      checkAnnotation(
+        [exportOrStatement, statement],
+        localsSrc.original,
+        diagnostics
+      );
+    }
+    if (exportOrStatement.type === "ExportDefaultDeclaration") {
+      // The default export of the locals module is the locals object.
+      localsSrc.remove(exportOrStatement.start!, statement.start!);
+    }
+    // Ambient declarations are copied to the main modules instead.
+    if (ambient) continue;
+    if (
+      statement.type === "FunctionDeclaration" ||
+      statement.type === "ClassDeclaration" ||
+      statement.type === "TSEnumDeclaration"
+    ) {
+      // Anonymous declarations only appear in `export default`.
+      if (!statement.id) continue;
+      // Enums can be merged with other enums of the same name.
+      if (bindings.some((b) => b.name === statement.id!.name)) continue;
+      bindings.push({
+        name: statement.id.name,
+        // Functions and classes can be reassigned in JavaScript, but not in
+        //  TypeScript. Enums can't be reassigned.
+        readonly: typed || statement.type === "TSEnumDeclaration",
+      });
+    } else if (statement.type === "TSModuleDeclaration") {
+      // Namespaces can be merged with functions, classes, enums and other
+      //  namespaces of the same name.
+      if (
+        statement.id.type !== "Identifier" ||
+        !isInstantiated(statement) ||
+        bindings.some((b) => b.name === (statement.id as t.Identifier).name)
+      )
+        continue;
+      bindings.push({ name: statement.id.name, readonly: true });
+    } else if (statement.type === "TSImportEqualsDeclaration") {
+      if (statement.importKind === "type") continue;
+      bindings.push({ name: statement.id.name, readonly: true });
+    } else if (statement.type === "VariableDeclaration") {
       const readonly = statement.kind === "const";
+      const statementAnnotation = readonly
+        ? undefined
+        : getAnnotation(
+            [exportOrStatement, statement],
+            localsSrc.original,
+            diagnostics
+          );
       const declarations = statement.declarations;
       for (const declaration of declarations) {
         const id = declaration.id;
-        switch (id.type) {
-          case "Identifier":
-            bindings.push({ name: id.name, readonly });
-            break;
-          case "MemberExpression":
-            const name = localsSrc.slice(id.start!, id.end!);
-            bindings.push({ name, readonly });
-            break;
-          case "ArrayPattern":
-            break;
-          case "ObjectPattern":
-            for (const property of id.properties) {
-              switch (property.type) {
-                case "RestElement":
-                  if (property.argument.type !== "Identifier")
-                    throw new Error("Rest element must be an identifier");
-                  bindings.push({
-                    name: property.argument.name,
-                    readonly,
-                  });
-                  break;
-                case "ObjectProperty":
-                  if (property.key.type !== "Identifier")
-                    throw new Error("Object property must be an identifier");
-                  bindings.push({
-                    name: property.key.name,
-                    readonly,
-                  });
-                  break;
-                default:
-                  const _exhaustiveCheck: never = property;
-              }
-            }
-            break;
-          case "RestElement":
-          case "AssignmentPattern":
-          case "TSParameterProperty":
-          case "TSAsExpression":
-          case "TSSatisfiesExpression":
-          case "TSTypeAssertion":
-          case "TSNonNullExpression":
-            throw new Error("Unsupported binding type: " + id.type);
-          default:
-            const _exhaustiveCheck: never = id;
+        if (readonly) {
+          checkAnnotation([declaration], localsSrc.original, diagnostics);
+        }
+        const annotation = readonly
+          ? undefined
+          : getAnnotation([declaration], localsSrc.original, diagnostics) ??
+            statementAnnotation;
+        // The runtime keeps the value if the signature is unchanged.
+        const signature =
+          readonly || annotation === "reset" || annotation === "static"
+            ? undefined
+            : annotation === "keep"
+            ? "keep"
+            : hash(localsSrc.slice(declaration.start!, declaration.end!));
+        const type =
+          id.type === "Identifier" &&
+          id.typeAnnotation?.type === "TSTypeAnnotation"
+            ? localsSrc.slice(
+                id.typeAnnotation.typeAnnotation.start!,
+                id.typeAnnotation.typeAnnotation.end!
+              )
+            : undefined;
+        for (const name of getPatternNames(id)) {
+          bindings.push({
+            name,
+            readonly: readonly || annotation === "static",
+            signature,
+            type,
+            annotation,
+          });
         }
       }
     } else if (statement.type === "ImportDeclaration") {
       if (statement.importKind === "type") continue;
       for (const specifier of statement.specifiers) {
-        if (specifier.local.name !== "app") {
+        // Exporting a type as a value breaks under `isolatedModules`.
+        if (
+          specifier.type === "ImportSpecifier" &&
+          specifier.importKind === "type"
+        )
+          continue;
+        if (!appImports.names.has(specifier.local.name)) {
           bindings.push({
             name: specifier.local.name,
             readonly: true,
@@ -130,41 +659,476 @@ function getBindings({ localsAst, localsSrc }: ParseResult): Binding[] {
   return bindings;
 }
 
-function appendExport({ localsSrc }: ParseResult, bindings: Binding[]) {
-  let str = "export default Object.seal({";
+/**
+ * The top-level declarations of the entry file that the app mains can use
+ *  in type positions, which are left as they are.
+ */
+interface LocalsTypes {
+  /**
+   * The names imported by the main modules with `import type`, e.g. those
+   *  of interfaces, classes and imports, and the values in type queries.
+   */
+  names: string[];
+  /**
+   * The names in `names` that the input doesn't export already.
+   */
+  exports: string[];
+  /**
+   * The source of the `declare` declarations, e.g. `declare const a: A;`.
+   *
+   * They are copied, since the names are not locals but globals.
+   */
+  ambient: string[];
+}
+
+function getLocalsTypes(
+  { localsAst, localsSrc, mains, appImports }: ParseResult,
+  bindings: Binding[]
+): LocalsTypes {
+  const types: LocalsTypes = { names: [], exports: [], ambient: [] };
+  const exportedNames = new Set<string>();
+  for (const statement of localsAst) {
+    if (statement.type !== "ExportNamedDeclaration" || statement.source)
+      continue;
+    const declaration = statement.declaration;
+    if (declaration?.type === "VariableDeclaration") {
+      for (const declarator of declaration.declarations) {
+        for (const name of getPatternNames(declarator.id)) {
+          exportedNames.add(name);
+        }
+      }
+    } else if (
+      declaration &&
+      "id" in declaration &&
+      declaration.id?.type === "Identifier"
+    ) {
+      exportedNames.add(declaration.id.name);
+    }
+    for (const specifier of statement.specifiers) {
+      if (specifier.type === "ExportSpecifier") {
+        exportedNames.add(
+          specifier.exported.type === "Identifier"
+            ? specifier.exported.name
+            : specifier.exported.value
+        );
+      }
+    }
+  }
+  const add = (name: string) => {
+    if (types.names.includes(name)) return;
+    types.names.push(name);
+    if (!exportedNames.has(name)) types.exports.push(name);
+  };
+  for (const exportOrStatement of localsAst) {
+    const statement = unwrapExport(exportOrStatement);
+    if (!statement) continue;
+    if (isAmbient(statement)) {
+      // `declare global` and `declare module "x"` apply to the whole program.
+      if (
+        statement.type !== "TSModuleDeclaration" ||
+        (statement.id.type === "Identifier" && !statement.global)
+      ) {
+        types.ambient.push(
+          localsSrc.original.slice(statement.start!, statement.end!)
+        );
+      }
+      continue;
+    }
+    switch (statement.type) {
+      case "TSInterfaceDeclaration":
+      case "TSTypeAliasDeclaration":
+      case "ClassDeclaration":
+      case "TSEnumDeclaration":
+      case "TSImportEqualsDeclaration":
+        if (statement.id) add(statement.id.name);
+        break;
+      case "TSModuleDeclaration":
+        if (statement.id.type === "Identifier") add(statement.id.name);
+        break;
+      case "ImportDeclaration":
+        for (const specifier of statement.specifiers) {
+          if (!appImports.names.has(specifier.local.name))
+            add(specifier.local.name);
+        }
+        break;
+    }
+  }
+  // Type queries of value locals, e.g. `typeof count`, are left as they
+  //  are, so the values are imported as types as well.
+  const localNames = new Set(bindings.map((b) => b.name));
+  for (const { ast } of mains) {
+    t.traverseFast(ast, (node) => {
+      if (node.type !== "TSTypeQuery") return;
+      let name = node.exprName;
+      while (name.type === "TSQualifiedName") name = name.left;
+      if (name.type === "Identifier" && localNames.has(name.name)) {
+        add(name.name);
+      }
+    });
+  }
+  return types;
+}
+
+function appendExport(
+  { localsSrc }: ParseResult,
+  bindings: Binding[],
+  localsTypes: LocalsTypes | null,
+  localsName: string
+) {
+  let str = "";
+  if (localsTypes) {
+    if (localsTypes.exports.length > 0) {
+      str += `export type { ${localsTypes.exports.join(", ")} };`;
+    }
+    // The setters get their parameter types from this interface.
+    str += `export interface ${localsTypeName} {`;
+    for (const { name, readonly, type } of bindings) {
+      str += `${readonly ? "readonly " : ""}${name}: ${
+        type ?? `typeof ${name}`
+      };`;
+    }
+    str += "}";
+    str += `const ${localsName} = Object.seal<${localsTypeName}>({`;
+  } else {
+    str += `const ${localsName} = Object.seal({`;
+  }
   for (const { name, readonly } of bindings) {
     if (readonly) {
       str += `${name},`;
     } else {
       str += `get ${name}() { return ${name} },`;
-      str += `set ${name}(v) { ${name} = v },`;
+      str += `set ${name}(${valueName}) { ${name} = ${valueName} },`;
     }
   }
-  str += "})";
+  str += "});";
+  str += `export default ${localsName};`;
+
+  // Mutable bindings whose declaration is unchanged are rehydrated
+  //  from the previous instance by the runtime.
+  str += `export const ${signaturesName} = {`;
+  for (const { name, signature } of bindings) {
+    if (signature) str += `${name}: ${JSON.stringify(signature)},`;
+  }
+  str += "};";
 
   localsSrc.append(str);
 }
 
-function wrapMain({ mainAst, mainSrc }: ParseResult) {
-  mainSrc.update(
-    mainAst.start!,
-    mainAst.arguments[0].start!,
-    `export default (${localsName}) =>`
+/**
+ * Rewrites the relative specifiers of the imports, re-exports and dynamic
+ *  imports outside the app mains, so that they resolve from the locals
+ *  module instead of the input file.
+ */
+function rebaseImports(
+  { localsAst, localsSrc }: ParseResult,
+  importBase: string | null,
+  diagnostics: Diagnostic[]
+) {
+  if (!importBase) return;
+  const ctx = { src: localsSrc, diagnostics, importBase };
+  for (const statement of localsAst) {
+    t.traverseFast(statement, (node) => {
+      if (node.type === "ImportExpression") {
+        processImportSource(node.source, ctx);
+      } else if (
+        node.type === "CallExpression" &&
+        node.callee.type === "Import" &&
+        node.arguments[0]
+      ) {
+        processImportSource(node.arguments[0], ctx);
+      }
+    });
+
+    let source: t.StringLiteral | null | undefined;
+    if (
+      statement.type === "ImportDeclaration" ||
+      statement.type === "ExportNamedDeclaration" ||
+      statement.type === "ExportAllDeclaration"
+    ) {
+      source = statement.source;
+    } else if (
+      statement.type === "TSImportEqualsDeclaration" &&
+      statement.moduleReference.type === "TSExternalModuleReference"
+    ) {
+      source = statement.moduleReference.expression;
+    }
+    if (source && isRelative(source.value)) {
+      localsSrc.update(
+        source.start!,
+        source.end!,
+        JSON.stringify(rebaseSpecifier(source.value, importBase))
+      );
+    }
+  }
+}
+
+/**
+ * Lets `onHmrDispose` and `getHmrData` find the current instance of the
+ *  locals module, if the entry file imports them.
+ *
+ * The imports are evaluated first, so the context is created right before
+ *  the top-level code of the entry file.
+ */
+function wrapHmrContext({ localsAst, localsSrc }: ParseResult, hmrId: string) {
+  const usesRuntime = localsAst.some(
+    (statement) =>
+      statement.type === "ImportDeclaration" &&
+      statement.importKind !== "type" &&
+      statement.source.value === runtimeModule
+  );
+  if (!usesRuntime) return;
+  localsSrc.prepend(
+    `import { beginLocals as __beginLocals__, endLocals as __endLocals__ } from ${JSON.stringify(
+      runtimeModule
+    )};__beginLocals__(${JSON.stringify(hmrId)});\n`
+  );
+  localsSrc.append(`\n__endLocals__();`);
+}
+
+/**
+ * A relative import whose bindings are only used through the locals object,
+ *  so a new version of the imported module can be swapped into the locals
+ *  object without reloading the locals module.
+ */
+export interface HotImport {
+  /**
+   * The specifier, relative to the input file, e.g. `./counter`.
+   */
+  source: string;
+  /**
+   * Maps the local names to the imported names, which are `default` for
+   *  default imports and `*` for namespace imports.
+   */
+  names: Record<string, string>;
+}
+
+/**
+ * Collects the identifiers in the nodes, regardless of scopes,
+ *  which over-approximates the referenced names.
+ */
+function getIdentifierNames(nodes: t.Node[]) {
+  const names = new Set<string>();
+  for (const node of nodes) {
+    t.traverseFast(node, (child) => {
+      if (child.type === "Identifier" || child.type === "JSXIdentifier")
+        names.add(child.name);
+    });
+  }
+  return names;
+}
+
+function getHotImports(
+  { localsAst }: ParseResult,
+  exportedBindings: Binding[]
+): HotImport[] {
+  const exported = new Set(exportedBindings.map((b) => b.name));
+  // A module used by the locals code itself can't be swapped, since the
+  //  locals code would keep using the old version.
+  const usedByLocals = getIdentifierNames(
+    localsAst.filter((statement) => statement.type !== "ImportDeclaration")
   );
-  mainSrc.remove(mainAst.arguments[0].end!, mainAst.end!);
+  const hotImports: HotImport[] = [];
+  for (const statement of localsAst) {
+    if (
+      statement.type !== "ImportDeclaration" ||
+      statement.importKind === "type" ||
+      !isRelative(statement.source.value)
+    )
+      continue;
+    const names: Record<string, string> = {};
+    let swappable = true;
+    for (const specifier of statement.specifiers) {
+      if (specifier.type === "ImportSpecifier") {
+        if (specifier.importKind === "type") continue;
+        names[specifier.local.name] =
+          specifier.imported.type === "Identifier"
+            ? specifier.imported.name
+            : specifier.imported.value;
+      } else {
+        names[specifier.local.name] =
+          specifier.type === "ImportDefaultSpecifier" ? "default" : "*";
+      }
+      if (
+        !exported.has(specifier.local.name) ||
+        usedByLocals.has(specifier.local.name)
+      )
+        swappable = false;
+    }
+    if (swappable && Object.keys(names).length > 0) {
+      hotImports.push({ source: statement.source.value, names });
+    }
+  }
+  return hotImports;
 }
 
-function processStmt(
-  ast: t.Statement,
-  src: MagicString,
-  bindings: Set<string>
+/**
+ * Turns the processed call into a main module, e.g.
+ *
+ * ```ts
+ * import { app } from "refina";
+ * import type { __Locals__ } from "./locals";
+ * const __app__ = (__locals__: __Locals__) => app.use((__locals__.Plugin));
+ * type __Main__ = Parameters<ReturnType<typeof __app__>>[0];
+ * export const __mount__ = (__locals__: __Locals__, __main__: __Main__) =>
+ *   __app__(__locals__)(__main__);
+ * export default (__locals__: __Locals__): __Main__ => (_) => { ... };
+ * ```
+ *
+ * The app main is typed from the `app(...)` call, as it was before being
+ *  moved out of the call.
+ */
+function wrapMain(
+  { ast, src }: MainPart,
+  appImports: AppImports,
+  localsModule: string | null,
+  localsTypes: LocalsTypes | null,
+  localsName: string
 ) {
+  const mainArg = ast.arguments[0];
+  const localsParam = localsModule
+    ? `${localsName}: ${localsTypeName}`
+    : localsName;
+  const mainType = localsModule ? `: ${mainTypeName}` : "";
+
+  src.prependLeft(ast.start!, `const ${appName} = (${localsParam}) => `);
+  let str = ";\n";
+  if (localsModule) {
+    str += `type ${mainTypeName} = Parameters<ReturnType<typeof ${appName}>>[0];\n`;
+  }
+  str += `export const ${mountName} = (${localsParam}, ${mainName}${mainType}) => ${appName}(${localsName})`;
+  src.appendLeft(ast.callee.end!, str);
+
+  src.move(mainArg.start!, mainArg.end!, ast.end!);
+  src.appendLeft(mainArg.start!, mainName);
+  src.appendLeft(ast.end!, `;\nexport default (${localsParam})${mainType} => `);
+
+  if (localsTypes?.ambient.length) {
+    src.prepend(`${localsTypes.ambient.join("\n")}\n`);
+  }
+  if (localsModule) {
+    const typeNames = [localsTypeName, ...(localsTypes?.names ?? [])];
+    src.prepend(
+      `import type { ${typeNames.join(", ")} } from ${JSON.stringify(
+        localsModule
+      )};\n`
+    );
+  }
+  // `app` is not a local, so it is imported again.
+  for (const [name, module] of appImports.names) {
+    const specifier = name === "app" ? name : `app as ${name}`;
+    src.prepend(`import { ${specifier} } from ${JSON.stringify(module)};\n`);
+  }
+}
+
+/**
+ * Checks for top-level constructs that are accepted but may not behave as
+ *  expected when the locals module is reloaded.
+ */
+function checkLocals({ localsAst }: ParseResult): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  // Calls to `onHmrDispose` are the way to handle the re-execution.
+  const runtimeNames = new Set<string>();
+  for (const statement of localsAst) {
+    if (
+      statement.type === "ImportDeclaration" &&
+      statement.source.value === runtimeModule
+    ) {
+      for (const specifier of statement.specifiers) {
+        runtimeNames.add(specifier.local.name);
+      }
+    }
+  }
+  for (const statement of localsAst) {
+    if (statement.type === "ExpressionStatement") {
+      const { expression } = statement;
+      if (
+        expression.type === "CallExpression" &&
+        expression.callee.type === "Identifier" &&
+        runtimeNames.has(expression.callee.name)
+      )
+        continue;
+      diagnostics.push(
+        warning(
+          "locals-side-effect",
+          "Top-level statements are re-executed whenever the locals module is reloaded, use onHmrDispose() to clean up their effects",
+          statement
+        )
+      );
+    } else if (
+      (statement.type === "ExportNamedDeclaration" ||
+        statement.type === "ExportDefaultDeclaration" ||
+        statement.type === "ExportAllDeclaration") &&
+      // These are reported as errors by `getBindings`.
+      !isUnnamedDefaultExport(statement)
+    ) {
+      diagnostics.push(
+        warning(
+          "entry-export",
+          "Exports of an app entry file are not hot-reloaded",
+          statement
+        )
+      );
+    }
+  }
+  return diagnostics;
+}
+
+interface ProcessContext {
+  src: MagicString;
+  diagnostics: Diagnostic[];
+  readonlyLocals: ReadonlySet<string>;
+  /**
+   * The locals referenced by the app mains, which are the ones exported.
+   */
+  referencedLocals: Set<string>;
+  /**
+   * The rewritten references to locals in the current app main.
+   */
+  references: LocalReference[];
+  localsName: string;
+  /**
+   * The directory of the input file relative to the main modules,
+   *  or `null` if they are in the same directory.
+   */
+  importBase: string | null;
+}
+
+/**
+ * Whether the identifier resolves to a local, which is then recorded as
+ *  referenced.
+ */
+function useLocal(
+  ast: t.Identifier | t.JSXIdentifier,
+  ctx: ProcessContext,
+  scope: Scope
+) {
+  if (!scope.isLocal(ast.name)) return false;
+  ctx.referencedLocals.add(ast.name);
+  ctx.references.push({ name: ast.name, range: getRange(ast)! });
+  return true;
+}
+
+/**
+ * Reports writes to readonly locals, e.g. constants and imports,
+ *  which would fail at runtime against the sealed locals object.
+ */
+function checkWrite(ast: t.Identifier, ctx: ProcessContext, scope: Scope) {
+  if (scope.isLocal(ast.name) && ctx.readonlyLocals.has(ast.name)) {
+    ctx.diagnostics.push(
+      createDiagnostic(
+        "error",
+        "readonly-write",
+        `Cannot assign to "${ast.name}" because it is a readonly local`,
+        ast
+      )
+    );
+  }
+}
+
+function processStmt(ast: t.Statement, ctx: ProcessContext, scope: Scope) {
   switch (ast.type) {
     case "BlockStatement":
-      const innerBindings = new Set(bindings);
-      for (const stmt of ast.body) {
-        processStmt(stmt, src, innerBindings);
-      }
+      processBlock(ast.body, ctx, scope.child("block"));
       break;
 
     case "BreakStatement":
@@ -174,128 +1138,127 @@ function processStmt(
       break;
 
     case "DoWhileStatement":
-      processStmt(ast.body, src, bindings);
+      processStmt(ast.body, ctx, scope);
       break;
 
     case "ExpressionStatement":
-      processExpr(ast.expression, src, bindings);
+      processExpr(ast.expression, ctx, scope);
       break;
 
     case "ForInStatement":
-      const innerBindings2 = new Set(bindings);
+    case "ForOfStatement":
+      // The declarations of the loop head are in TDZ while evaluating
+      //  the right-hand side, e.g. `for (const x of x)` throws.
+      const headScope = scope.child("block");
       if (ast.left.type === "VariableDeclaration") {
-        processVariableDeclaration(ast.left, src, innerBindings2);
+        processVariableDeclaration(ast.left, ctx, headScope);
       } else {
-        processLVal(ast.left, src, innerBindings2);
+        processLVal(ast.left, ctx, headScope);
       }
-      processExpr(ast.right, src, innerBindings2);
-      processStmt(ast.body, src, innerBindings2);
+      processExpr(ast.right, ctx, headScope);
+      processStmt(ast.body, ctx, headScope);
       break;
 
     case "ForStatement":
-      const innerBindings3 = new Set(bindings);
+      const forScope = scope.child("block");
       if (ast.init) {
         if (ast.init.type === "VariableDeclaration") {
-          processVariableDeclaration(ast.init, src, innerBindings3);
+          processVariableDeclaration(ast.init, ctx, forScope);
         } else {
-          processExpr(ast.init, src, innerBindings3);
+          processExpr(ast.init, ctx, forScope);
         }
       }
-      if (ast.test) processExpr(ast.test, src, innerBindings3);
-      if (ast.update) processExpr(ast.update, src, innerBindings3);
-      processStmt(ast.body, src, innerBindings3);
+      if (ast.test) processExpr(ast.test, ctx, forScope);
+      if (ast.update) processExpr(ast.update, ctx, forScope);
+      processStmt(ast.body, ctx, forScope);
       break;
 
     case "FunctionDeclaration":
-      const innerBindings4 = new Set(bindings);
-      for (const param of ast.params) {
-        processLVal(param, src, innerBindings4);
-      }
-      processStmt(ast.body, src, innerBindings4);
+      // The name is hoisted to the enclosing block.
+      processFunction(ast, ctx, scope);
       break;
 
     case "IfStatement":
-      const innerBindings5 = new Set(bindings);
-      processExpr(ast.test, src, innerBindings5);
-      processStmt(ast.consequent, src, innerBindings5);
-      if (ast.alternate) processStmt(ast.alternate, src, innerBindings5);
+      processExpr(ast.test, ctx, scope);
+      processStmt(ast.consequent, ctx, scope);
+      if (ast.alternate) processStmt(ast.alternate, ctx, scope);
       break;
 
     case "LabeledStatement":
-      processStmt(ast.body, src, bindings);
+      // Labels are in their own namespace, as are the ones of `break`
+      //  and `continue`.
+      processStmt(ast.body, ctx, scope);
       break;
 
     case "ReturnStatement":
-      if (ast.argument) processExpr(ast.argument, src, bindings);
+      if (ast.argument) processExpr(ast.argument, ctx, scope);
       break;
 
     case "SwitchStatement":
-      processExpr(ast.discriminant, src, bindings);
+      processExpr(ast.discriminant, ctx, scope);
+      // All the cases share one block scope.
+      const switchScope = scope.child("block");
+      hoistLexical(
+        ast.cases.flatMap((caseClause) => caseClause.consequent),
+        switchScope
+      );
       for (const caseClause of ast.cases) {
-        if (caseClause.test) processExpr(caseClause.test, src, bindings);
-        const innerBindings6 = new Set(bindings);
+        if (caseClause.test) processExpr(caseClause.test, ctx, switchScope);
         for (const stmt of caseClause.consequent) {
-          processStmt(stmt, src, innerBindings6);
+          processStmt(stmt, ctx, switchScope);
         }
       }
       break;
 
     case "ThrowStatement":
-      processExpr(ast.argument, src, bindings);
+      processExpr(ast.argument, ctx, scope);
       break;
 
     case "TryStatement":
-      processStmt(ast.block, src, bindings);
+      processStmt(ast.block, ctx, scope);
       if (ast.handler) {
-        const innerBindings7 = new Set(bindings);
-        if (ast.handler.param)
-          processLVal(ast.handler.param, src, innerBindings7);
-        processStmt(ast.handler.body, src, bindings);
+        const catchScope = scope.child("catch");
+        if (ast.handler.param) {
+          catchScope.declarePattern(ast.handler.param);
+          processDeclarationId(ast.handler.param, ctx, catchScope);
+        }
+        processStmt(ast.handler.body, ctx, catchScope);
       }
-      if (ast.finalizer) processStmt(ast.finalizer, src, bindings);
+      if (ast.finalizer) processStmt(ast.finalizer, ctx, scope);
       break;
 
     case "VariableDeclaration":
-      processVariableDeclaration(ast, src, bindings);
+      processVariableDeclaration(ast, ctx, scope);
       break;
 
     case "WhileStatement":
-      const innerBindings8 = new Set(bindings);
-      processExpr(ast.test, src, innerBindings8);
-      processStmt(ast.body, src, innerBindings8);
+      processExpr(ast.test, ctx, scope);
+      processStmt(ast.body, ctx, scope);
       break;
 
     case "WithStatement":
-      const innerBindings9 = new Set(bindings);
-      processExpr(ast.object, src, innerBindings9);
-      processStmt(ast.body, src, innerBindings9);
+      processExpr(ast.object, ctx, scope);
+      processStmt(ast.body, ctx, scope);
       break;
 
     case "ClassDeclaration":
-      throw new Error("Not implemented: ClassDeclaration");
+      // The name is hoisted to the enclosing block.
+      processClass(ast, ctx, scope);
+      break;
 
     case "ExportAllDeclaration":
     case "ExportDefaultDeclaration":
     case "ExportNamedDeclaration":
     case "TSExportAssignment":
     case "TSNamespaceExportDeclaration":
-      throw new Error("Cannot export from app main");
-
-    case "ForOfStatement":
-      processExpr(ast.right, src, bindings);
-      if (ast.left.type === "VariableDeclaration") {
-        processVariableDeclaration(ast.left, src, bindings);
-      } else {
-        processLVal(ast.left, src, bindings);
-      }
-      break;
+      throw error("export-in-main", "Cannot export from app main", ast);
 
     case "ImportDeclaration":
     case "TSImportEqualsDeclaration":
-      throw new Error("Cannot import from app main");
+      throw error("import-in-main", "Cannot import from app main", ast);
 
     case "EnumDeclaration":
-      throw new Error("Not implemented: EnumDeclaration");
+      throw error("not-implemented", "Not implemented: " + ast.type, ast);
 
     case "DeclareClass":
     case "DeclareFunction":
@@ -319,7 +1282,7 @@ function processStmt(
     case "TSEnumDeclaration":
       for (const member of ast.members) {
         if (member.initializer) {
-          processExpr(member.initializer, src, bindings);
+          processExpr(member.initializer, ctx, scope);
         }
       }
       break;
@@ -331,83 +1294,104 @@ function processStmt(
 
 export function processExpr(
   ast: t.Expression,
-  src: MagicString,
-  bindings: ReadonlySet<string>
+  ctx: ProcessContext,
+  scope: Scope
 ) {
   switch (ast.type) {
     case "ArrayExpression":
       for (const element of ast.elements) {
         if (!element) continue;
         if (element.type === "SpreadElement") {
-          processExpr(element.argument, src, bindings);
+          processExpr(element.argument, ctx, scope);
         } else {
-          processExpr(element, src, bindings);
+          processExpr(element, ctx, scope);
         }
       }
       break;
 
     case "AssignmentExpression":
       if (ast.left.type === "OptionalMemberExpression") {
-        processExpr(ast.left, src, bindings);
+        processExpr(ast.left, ctx, scope);
       } else {
-        processLVal(ast.left, src, bindings);
+        processLVal(ast.left, ctx, scope);
       }
-      processExpr(ast.right, src, bindings);
+      processExpr(ast.right, ctx, scope);
       break;
 
     case "BinaryExpression":
       if (ast.left.type !== "PrivateName") {
-        processExpr(ast.left, src, bindings);
+        processExpr(ast.left, ctx, scope);
       }
-      processExpr(ast.right, src, bindings);
+      processExpr(ast.right, ctx, scope);
       break;
 
     case "CallExpression":
       if (ast.callee.type === "V8IntrinsicIdentifier") {
-        throw new Error("Not implemented: " + ast.callee.name);
+        throw error(
+          "not-implemented",
+          "Not implemented: " + ast.callee.name,
+          ast.callee
+        );
+      }
+      if (ast.callee.type === "Identifier" && ast.callee.name === "eval") {
+        ctx.diagnostics.push(
+          warning(
+            "direct-eval",
+            "Locals referenced by code passed to `eval` are not rewritten",
+            ast
+          )
+        );
+      }
+      if (ast.callee.type === "Import" && ast.arguments[0]) {
+        processImportSource(ast.arguments[0], ctx);
       }
-      processExpr(ast.callee, src, bindings);
+      processExpr(ast.callee, ctx, scope);
       for (const arg of ast.arguments) {
-        processArgument(arg, src, bindings);
+        processArgument(arg, ctx, scope);
       }
       break;
 
     case "ConditionalExpression":
-      processExpr(ast.test, src, bindings);
-      processExpr(ast.consequent, src, bindings);
-      processExpr(ast.alternate, src, bindings);
+      processExpr(ast.test, ctx, scope);
+      processExpr(ast.consequent, ctx, scope);
+      processExpr(ast.alternate, ctx, scope);
       break;
 
     case "FunctionExpression":
-      const innerBindings = new Set(bindings);
-      processStmt(ast.body, src, innerBindings);
+      processFunction(ast, ctx, scope);
       break;
 
     case "Identifier":
-      if (bindings.has(ast.name)) {
-        src.update(ast.start!, ast.end!, getLocalsName(ast.name));
+      if (useLocal(ast, ctx, scope)) {
+        ctx.src.update(
+          ast.start!,
+          ast.end!,
+          getLocalsName(ctx.localsName, ast.name)
+        );
       }
       break;
 
     case "LogicalExpression":
-      processExpr(ast.left, src, bindings);
-      processExpr(ast.right, src, bindings);
+      processExpr(ast.left, ctx, scope);
+      processExpr(ast.right, ctx, scope);
       break;
 
     case "MemberExpression":
-      processExpr(ast.object, src, bindings);
-      if (ast.property.type !== "PrivateName") {
-        processExpr(ast.property, src, bindings);
-      }
+      processExpr(ast.object, ctx, scope);
+      processKey(ast.property, ast.computed, ctx, scope);
       break;
 
     case "NewExpression":
       if (ast.callee.type === "V8IntrinsicIdentifier") {
-        throw new Error("Not implemented: " + ast.callee.name);
+        throw error(
+          "not-implemented",
+          "Not implemented: " + ast.callee.name,
+          ast.callee
+        );
       }
-      processExpr(ast.callee, src, bindings);
+      processExpr(ast.callee, ctx, scope);
       for (const arg of ast.arguments) {
-        processArgument(arg, src, bindings);
+        processArgument(arg, ctx, scope);
       }
       break;
 
@@ -417,31 +1401,31 @@ export function processExpr(
           case "ObjectProperty":
             if (property.shorthand) {
               if (property.key.type !== "Identifier")
-                throw new Error("Object property must be an identifier");
+                throw error(
+                  "invalid-pattern",
+                  "Object property must be an identifier",
+                  property.key
+                );
               const name = property.key.name;
-              if (bindings.has(name)) {
-                src.update(
+              if (useLocal(property.key, ctx, scope)) {
+                ctx.src.update(
                   property.key.start!,
                   property.key.end!,
-                  `${name}:${getLocalsName(name)}`
+                  `${name}:${getLocalsName(ctx.localsName, name)}`
                 );
               }
             } else {
-              if (property.key.type !== "PrivateName" && property.computed) {
-                processExpr(property.key, src, bindings);
-              }
-              processExprOrPatternLike(property.value, src, bindings);
+              processKey(property.key, property.computed, ctx, scope);
+              // Only patterns can contain patterns.
+              processExpr(property.value as t.Expression, ctx, scope);
             }
             break;
           case "SpreadElement":
-            processExpr(property.argument, src, bindings);
+            processExpr(property.argument, ctx, scope);
             break;
           case "ObjectMethod":
-            const innerBindings2 = new Set(bindings);
-            for (const param of property.params) {
-              processLVal(param, src, innerBindings2);
-            }
-            processStmt(property.body, src, innerBindings2);
+            processKey(property.key, property.computed, ctx, scope);
+            processFunction(property, ctx, scope);
             break;
           default:
             const _exhaustiveCheck: never = property;
@@ -451,96 +1435,96 @@ export function processExpr(
 
     case "SequenceExpression":
       for (const expression of ast.expressions) {
-        processExpr(expression, src, bindings);
+        processExpr(expression, ctx, scope);
       }
       break;
 
     case "ParenthesizedExpression":
-      processExpr(ast.expression, src, bindings);
+      processExpr(ast.expression, ctx, scope);
       break;
 
     case "ThisExpression":
       break;
 
     case "UnaryExpression":
-      processExpr(ast.argument, src, bindings);
+      processExpr(ast.argument, ctx, scope);
       break;
 
     case "UpdateExpression":
-      processExpr(ast.argument, src, bindings);
+      if (ast.argument.type === "Identifier") {
+        checkWrite(ast.argument, ctx, scope);
+      }
+      processExpr(ast.argument, ctx, scope);
       break;
 
     case "ArrowFunctionExpression":
-      const innerBindings3 = new Set(bindings);
-      for (const param of ast.params) {
-        processLVal(param, src, innerBindings3);
-      }
-      if (ast.body.type === "BlockStatement") {
-        processStmt(ast.body, src, innerBindings3);
-      } else {
-        processExpr(ast.body, src, innerBindings3);
-      }
+      processFunction(ast, ctx, scope);
       break;
 
     case "ClassExpression":
+      processClass(ast, ctx, scope);
       break;
 
     case "ImportExpression":
-      throw new Error("Not implemented: " + ast.type);
+      processImportSource(ast.source, ctx);
+      processExpr(ast.source, ctx, scope);
+      if (ast.options) processExpr(ast.options, ctx, scope);
+      break;
 
     case "MetaProperty":
+      // `import.meta` and `new.target` are not references.
       break;
 
     case "Super":
       break;
 
     case "TaggedTemplateExpression":
-      processExpr(ast.tag, src, bindings);
-      processExpr(ast.quasi, src, bindings);
+      processExpr(ast.tag, ctx, scope);
+      processExpr(ast.quasi, ctx, scope);
       break;
 
     case "TemplateLiteral":
       for (const expression of ast.expressions) {
         if (t.isExpression(expression)) {
-          processExpr(expression, src, bindings);
+          processExpr(expression, ctx, scope);
         }
       }
       break;
 
     case "YieldExpression":
       if (ast.argument) {
-        processExpr(ast.argument, src, bindings);
+        processExpr(ast.argument, ctx, scope);
       }
       break;
 
     case "AwaitExpression":
-      processExpr(ast.argument, src, bindings);
+      processExpr(ast.argument, ctx, scope);
       break;
 
     case "Import":
       break;
 
     case "OptionalMemberExpression":
-      processExpr(ast.object, src, bindings);
-      processExpr(ast.property, src, bindings);
+      processExpr(ast.object, ctx, scope);
+      processKey(ast.property, ast.computed, ctx, scope);
       break;
 
     case "OptionalCallExpression":
-      processExpr(ast.callee, src, bindings);
+      processExpr(ast.callee, ctx, scope);
       for (const arg of ast.arguments) {
-        processArgument(arg, src, bindings);
+        processArgument(arg, ctx, scope);
       }
       break;
 
     case "TypeCastExpression":
-      processExpr(ast.expression, src, bindings);
+      processExpr(ast.expression, ctx, scope);
       break;
 
     case "BindExpression":
     case "DoExpression":
     case "RecordExpression":
     case "TupleExpression":
-      throw new Error("Not implemented: " + ast.type);
+      throw error("not-implemented", "Not implemented: " + ast.type, ast);
 
     case "StringLiteral":
     case "NumericLiteral":
@@ -554,19 +1538,23 @@ export function processExpr(
 
     case "JSXElement":
     case "JSXFragment":
+      processJSX(ast, ctx, scope);
+      break;
+
     case "ModuleExpression":
     case "TopicReference":
     case "PipelineTopicExpression":
     case "PipelineBareFunction":
     case "PipelinePrimaryTopicReference":
-      throw new Error("Not implemented: " + ast.type);
+      throw error("not-implemented", "Not implemented: " + ast.type, ast);
 
     case "TSInstantiationExpression":
     case "TSAsExpression":
     case "TSSatisfiesExpression":
     case "TSTypeAssertion":
     case "TSNonNullExpression":
-      processExpr(ast.expression, src, bindings);
+      // Types are not values, so only the expression is processed.
+      processExpr(ast.expression, ctx, scope);
       break;
 
     default:
@@ -574,36 +1562,35 @@ export function processExpr(
   }
 }
 
-export function processLVal(
-  ast: t.LVal,
-  src: MagicString,
-  bindings: ReadonlySet<string>
-) {
+export function processLVal(ast: t.LVal, ctx: ProcessContext, scope: Scope) {
   switch (ast.type) {
     case "Identifier":
-      if (bindings.has(ast.name))
-        src.update(ast.start!, ast.end!, getLocalsName(ast.name));
+      checkWrite(ast, ctx, scope);
+      if (useLocal(ast, ctx, scope))
+        ctx.src.update(
+          ast.start!,
+          ast.end!,
+          getLocalsName(ctx.localsName, ast.name)
+        );
       break;
 
     case "MemberExpression":
-      processExpr(ast.object, src, bindings);
-      if (ast.property.type !== "PrivateName") {
-        processExpr(ast.property, src, bindings);
-      }
+      processExpr(ast.object, ctx, scope);
+      processKey(ast.property, ast.computed, ctx, scope);
       break;
 
     case "RestElement":
-      processLVal(ast.argument, src, bindings);
+      processLVal(ast.argument, ctx, scope);
       break;
 
     case "AssignmentPattern":
-      processLVal(ast.left, src, bindings);
-      processExpr(ast.right, src, bindings);
+      processLVal(ast.left, ctx, scope);
+      processExpr(ast.right, ctx, scope);
       break;
 
     case "ArrayPattern":
       for (const element of ast.elements) {
-        if (element) processLVal(element, src, bindings);
+        if (element) processLVal(element, ctx, scope);
       }
       break;
 
@@ -611,26 +1598,33 @@ export function processLVal(
       for (const property of ast.properties) {
         switch (property.type) {
           case "RestElement":
-            processLVal(property, src, bindings);
+            processLVal(property, ctx, scope);
             break;
           case "ObjectProperty":
             if (property.shorthand) {
               if (property.key.type !== "Identifier")
-                throw new Error("Object property must be an identifier");
+                throw error(
+                  "invalid-pattern",
+                  "Object property must be an identifier",
+                  property.key
+                );
               const name = property.key.name;
-              if (bindings.has(name)) {
-                src.update(
+              checkWrite(property.key, ctx, scope);
+              if (useLocal(property.key, ctx, scope)) {
+                ctx.src.update(
                   property.key.start!,
                   property.key.end!,
-                  `${name}:${getLocalsName(name)}`
+                  `${name}:${getLocalsName(ctx.localsName, name)}`
                 );
               }
-            } else {
-              if (property.key.type !== "PrivateName" && property.computed) {
-                processExpr(property.key, src, bindings);
+              // `({ a = b } = obj)`
+              if (property.value.type === "AssignmentPattern") {
+                processExpr(property.value.right, ctx, scope);
               }
+            } else {
+              processKey(property.key, property.computed, ctx, scope);
               // may be assignment pattern
-              processExprOrPatternLike(property.value, src, bindings);
+              processExprOrPatternLike(property.value, ctx, scope);
             }
             break;
           default:
@@ -646,7 +1640,11 @@ export function processLVal(
     case "TSSatisfiesExpression":
     case "TSTypeAssertion":
     case "TSNonNullExpression":
-      processExpr(ast.expression, src, bindings);
+      // `(a as any) = 1`
+      if (ast.expression.type === "Identifier") {
+        checkWrite(ast.expression, ctx, scope);
+      }
+      processExpr(ast.expression, ctx, scope);
       break;
 
     default:
@@ -654,34 +1652,35 @@ export function processLVal(
   }
 }
 
-function processDeclarationId(
-  ast: t.LVal,
-  src: MagicString,
-  bindings: Set<string>
-) {
+/**
+ * Processes the expressions in a declaration pattern, i.e. computed keys
+ *  and default values. The declared names are already in the scope.
+ */
+function processDeclarationId(ast: t.LVal, ctx: ProcessContext, scope: Scope) {
   switch (ast.type) {
     case "Identifier":
-      bindings.delete(ast.name);
       break;
 
     case "MemberExpression":
-      throw new Error(`Unsupported declaration type: ${ast.type}`);
+      throw error(
+        "invalid-pattern",
+        `Unsupported declaration type: ${ast.type}`,
+        ast
+      );
 
     case "RestElement":
-      if (ast.argument.type !== "Identifier")
-        throw new Error("Rest element must be an identifier in variable decl");
-      bindings.delete(ast.argument.name);
+      processDeclarationId(ast.argument, ctx, scope);
       break;
 
     case "AssignmentPattern":
-      processDeclarationId(ast.left, src, bindings);
+      processDeclarationId(ast.left, ctx, scope);
       // let { a = a } = {}; should throw ReferenceError.
-      processExpr(ast.right, src, bindings);
+      processExpr(ast.right, ctx, scope);
       break;
 
     case "ArrayPattern":
       for (const element of ast.elements) {
-        if (element) processDeclarationId(element, src, bindings);
+        if (element) processDeclarationId(element, ctx, scope);
       }
       break;
 
@@ -689,29 +1688,17 @@ function processDeclarationId(
       for (const property of ast.properties) {
         switch (property.type) {
           case "RestElement":
-            if (property.argument.type !== "Identifier")
-              throw new Error(
-                "Rest element must be an identifier in variable decl"
-              );
-            bindings.delete(property.argument.name);
+            processDeclarationId(property.argument, ctx, scope);
             break;
           case "ObjectProperty":
-            if (property.shorthand) {
-              if (property.key.type !== "Identifier")
-                throw new Error(
-                  "Object property must be an identifier in variable decl"
-                );
-              bindings.delete(property.key.name);
-            } else {
-              if (property.key.type !== "PrivateName" && property.computed) {
-                processExpr(property.key, src, bindings);
-              }
-              if (!t.isLVal(property.value))
-                throw new Error(
-                  "Object property must be a pattern in variable decl"
-                );
-              processDeclarationId(property.value, src, bindings);
-            }
+            processKey(property.key, property.computed, ctx, scope);
+            if (!t.isLVal(property.value))
+              throw error(
+                "invalid-pattern",
+                "Object property must be a pattern in variable decl",
+                property.value
+              );
+            processDeclarationId(property.value, ctx, scope);
             break;
           default:
             const _exhaustiveCheck: never = property;
@@ -720,13 +1707,14 @@ function processDeclarationId(
       break;
 
     case "TSParameterProperty":
+      processDeclarationId(ast.parameter, ctx, scope);
       break;
 
     case "TSAsExpression":
     case "TSSatisfiesExpression":
     case "TSTypeAssertion":
     case "TSNonNullExpression":
-      processExpr(ast.expression, src, bindings);
+      processExpr(ast.expression, ctx, scope);
       break;
 
     default:
@@ -736,25 +1724,269 @@ function processDeclarationId(
 
 function processVariableDeclaration(
   ast: t.VariableDeclaration,
-  src: MagicString,
-  bindings: Set<string>
+  ctx: ProcessContext,
+  scope: Scope
+) {
+  // Usually already hoisted, except in the head of `for` statements.
+  const declarationScope = ast.kind === "var" ? scope.functionScope : scope;
+  for (const declaration of ast.declarations) {
+    declarationScope.declarePattern(declaration.id);
+  }
+  for (const declaration of ast.declarations) {
+    processDeclarationId(declaration.id, ctx, scope);
+    if (declaration.init) processExpr(declaration.init, ctx, scope);
+  }
+}
+
+/**
+ * Processes the statements of a block, whose scope is `scope`.
+ */
+function processBlock(body: t.Statement[], ctx: ProcessContext, scope: Scope) {
+  hoistLexical(body, scope);
+  for (const stmt of body) {
+    processStmt(stmt, ctx, scope);
+  }
+}
+
+function processFunction(ast: t.Function, ctx: ProcessContext, scope: Scope) {
+  if (ast.type === "FunctionExpression" && ast.id) {
+    // The name of a function expression is only visible inside it.
+    scope = scope.child("block");
+    scope.declare(ast.id.name);
+  }
+  const functionScope = scope.child("function");
+  for (const param of ast.params) {
+    functionScope.declarePattern(param);
+  }
+  if (ast.body.type === "BlockStatement") {
+    hoistVar(ast.body, functionScope);
+  }
+  for (const param of ast.params) {
+    processDeclarationId(param, ctx, functionScope);
+  }
+  if (ast.body.type === "BlockStatement") {
+    processBlock(ast.body.body, ctx, functionScope);
+  } else {
+    processExpr(ast.body, ctx, functionScope);
+  }
+}
+
+function processDecorators(
+  decorators: t.Decorator[] | null | undefined,
+  ctx: ProcessContext,
+  scope: Scope
 ) {
-  const declarations = ast.declarations;
-  for (const declaration of declarations) {
-    if (declaration.init) processExpr(declaration.init, src, bindings);
-    processDeclarationId(declaration.id, src, bindings);
+  if (!decorators) return;
+  for (const decorator of decorators) {
+    processExpr(decorator.expression, ctx, scope);
+  }
+}
+
+function processClass(ast: t.Class, ctx: ProcessContext, scope: Scope) {
+  processDecorators(ast.decorators, ctx, scope);
+
+  // The class has an inner binding of its name, which also shadows the
+  //  locals in `extends`.
+  const classScope = scope.child("class");
+  if (ast.id) classScope.declare(ast.id.name);
+
+  if (ast.superClass) processExpr(ast.superClass, ctx, classScope);
+
+  for (const member of ast.body.body) {
+    switch (member.type) {
+      case "ClassMethod":
+      case "ClassPrivateMethod":
+        processDecorators(member.decorators, ctx, classScope);
+        processKey(member.key, !!member.computed, ctx, classScope);
+        processFunction(member, ctx, classScope);
+        break;
+
+      case "ClassProperty":
+      case "ClassPrivateProperty":
+      case "ClassAccessorProperty":
+        processDecorators(member.decorators, ctx, classScope);
+        if (member.type !== "ClassPrivateProperty") {
+          processKey(member.key, member.computed, ctx, classScope);
+        }
+        if (member.value) processExpr(member.value, ctx, classScope);
+        break;
+
+      case "StaticBlock":
+        processBlock(member.body, ctx, classScope.child("function"));
+        break;
+
+      case "TSDeclareMethod":
+      case "TSIndexSignature":
+        break;
+
+      default:
+        const _exhaustiveCheck: never = member;
+    }
   }
 }
 
+function processJSXName(
+  ast: t.JSXIdentifier | t.JSXMemberExpression | t.JSXNamespacedName,
+  ctx: ProcessContext,
+  scope: Scope
+) {
+  switch (ast.type) {
+    case "JSXIdentifier":
+      // Lowercase names are intrinsic elements, not references.
+      if (/^[a-z]|-/.test(ast.name)) break;
+      if (useLocal(ast, ctx, scope)) {
+        // `(__locals__.x)` is not a valid tag name.
+        ctx.src.update(ast.start!, ast.end!, `${ctx.localsName}.${ast.name}`);
+      }
+      break;
+
+    case "JSXMemberExpression":
+      if (ast.object.type === "JSXIdentifier") {
+        if (useLocal(ast.object, ctx, scope)) {
+          ctx.src.update(
+            ast.object.start!,
+            ast.object.end!,
+            `${ctx.localsName}.${ast.object.name}`
+          );
+        }
+      } else {
+        processJSXName(ast.object, ctx, scope);
+      }
+      break;
+
+    case "JSXNamespacedName":
+      break;
+
+    default:
+      const _exhaustiveCheck: never = ast;
+  }
+}
+
+function processJSX(
+  ast: t.JSXElement | t.JSXFragment,
+  ctx: ProcessContext,
+  scope: Scope
+) {
+  if (ast.type === "JSXElement") {
+    processJSXName(ast.openingElement.name, ctx, scope);
+    if (ast.closingElement) {
+      processJSXName(ast.closingElement.name, ctx, scope);
+    }
+    for (const attribute of ast.openingElement.attributes) {
+      if (attribute.type === "JSXSpreadAttribute") {
+        processExpr(attribute.argument, ctx, scope);
+      } else if (attribute.value?.type === "JSXExpressionContainer") {
+        if (attribute.value.expression.type !== "JSXEmptyExpression") {
+          processExpr(attribute.value.expression, ctx, scope);
+        }
+      } else if (attribute.value && attribute.value.type !== "StringLiteral") {
+        processJSX(attribute.value, ctx, scope);
+      }
+    }
+  }
+  for (const child of ast.children) {
+    switch (child.type) {
+      case "JSXText":
+        break;
+      case "JSXExpressionContainer":
+        if (child.expression.type !== "JSXEmptyExpression") {
+          processExpr(child.expression, ctx, scope);
+        }
+        break;
+      case "JSXSpreadChild":
+        processExpr(child.expression, ctx, scope);
+        break;
+      case "JSXElement":
+      case "JSXFragment":
+        processJSX(child, ctx, scope);
+        break;
+      default:
+        const _exhaustiveCheck: never = child;
+    }
+  }
+}
+
+function generateMap(s: MagicString, filename: string) {
+  return s.generateMap({
+    source: filename,
+    includeContent: true,
+    hires: true,
+  });
+}
+
+function isRelative(specifier: string) {
+  return /^\.\.?\//.test(specifier);
+}
+
+function rebaseSpecifier(specifier: string, base: string) {
+  const rebased = posix.join(base, specifier);
+  return rebased.startsWith(".") ? rebased : `./${rebased}`;
+}
+
+/**
+ * Rewrites the relative specifier of a dynamic `import()`, so that it
+ *  resolves from the generated module instead of the input file.
+ *
+ * For template literals, only the leading static part is rewritten,
+ *  e.g. `` `./pages/${name}.ts` ``.
+ */
+function processImportSource(
+  ast: t.CallExpression["arguments"][number],
+  ctx: Pick<ProcessContext, "src" | "diagnostics" | "importBase">
+) {
+  const base = ctx.importBase;
+  if (!base) return;
+  if (ast.type === "StringLiteral") {
+    if (isRelative(ast.value)) {
+      ctx.src.update(
+        ast.start!,
+        ast.end!,
+        JSON.stringify(rebaseSpecifier(ast.value, base))
+      );
+    }
+  } else if (ast.type === "TemplateLiteral") {
+    const head = ast.quasis[0];
+    if (isRelative(head.value.raw)) {
+      ctx.src.update(
+        head.start!,
+        head.end!,
+        rebaseSpecifier(head.value.raw, base)
+      );
+    }
+  } else {
+    ctx.diagnostics.push(
+      warning(
+        "dynamic-import-specifier",
+        "Specifiers of import() computed at runtime are not rebased to the generated module",
+        ast
+      )
+    );
+  }
+}
+
+/**
+ * Processes the key of a member expression, an object property or a class
+ *  member. Unless computed, the key is a property name, not a reference,
+ *  e.g. `count` in `user.count` or `{ count: 1 }`.
+ */
+function processKey(
+  ast: t.Expression | t.PrivateName,
+  computed: boolean,
+  ctx: ProcessContext,
+  scope: Scope
+) {
+  if (computed && ast.type !== "PrivateName") processExpr(ast, ctx, scope);
+}
+
 function processExprOrPatternLike(
   ast: t.Expression | t.PatternLike,
-  src: MagicString,
-  bindings: ReadonlySet<string>
+  ctx: ProcessContext,
+  scope: Scope
 ) {
   if (t.isPatternLike(ast)) {
-    processLVal(ast, src, bindings);
+    processLVal(ast, ctx, scope);
   } else {
-    processExpr(ast, src, bindings);
+    processExpr(ast, ctx, scope);
   }
 }
 
@@ -764,31 +1996,201 @@ function processArgument(
     | t.SpreadElement
     | t.JSXNamespacedName
     | t.ArgumentPlaceholder,
-  src: MagicString,
-  bindings: ReadonlySet<string>
+  ctx: ProcessContext,
+  scope: Scope
 ) {
   if (t.isJSXNamespacedName(ast)) {
   } else if (ast.type === "SpreadElement") {
-    processExpr(ast.argument, src, bindings);
+    processExpr(ast.argument, ctx, scope);
   } else if (ast.type === "ArgumentPlaceholder") {
-    throw new Error("Not implemented: " + ast.type);
+    throw error("not-implemented", "Not implemented: " + ast.type, ast);
   } else {
-    processExpr(ast, src, bindings);
+    processExpr(ast, ctx, scope);
   }
 }
 
-export function compile(src: string) {
-  const parseResult = parse(src);
-  const bindings = getBindings(parseResult);
-  appendExport(parseResult, bindings);
-  processExpr(
-    parseResult.mainAst,
-    parseResult.mainSrc,
-    new Set(bindings.map((b) => b.name))
-  );
-  wrapMain(parseResult);
+/**
+ * An identifier in an app main that is rewritten to a property access
+ *  on the locals object.
+ */
+export interface LocalReference {
+  name: string;
+  range: SourceRange;
+}
+
+export interface LocalBinding {
+  name: string;
+  readonly: boolean;
+  /**
+   * Whether the binding is a property of the locals object.
+   */
+  exported: boolean;
+}
+
+export interface MainOutput {
+  code: string;
+  map: SourceMap;
+  /**
+   * The range of the `app(...)` call in the input file.
+   */
+  range: SourceRange;
+  references: LocalReference[];
+  /**
+   * Changes only if the `app(...)` call or the list of locals changes.
+   */
+  fingerprint: string;
+}
+
+export interface CompileOutput {
+  locals: string;
+  localsMap: SourceMap;
+  /**
+   * One main module for each `app(...)` call, in source order.
+   */
+  mains: MainOutput[];
+  /**
+   * Changes only if the top-level code other than the `app(...)` calls
+   *  changes, ignoring whitespace and comments.
+   */
+  localsFingerprint: string;
+  /**
+   * The locals not referenced by any app main, which are not exported
+   *  unless `exportAllLocals` is set.
+   */
+  unusedLocals: string[];
+  /**
+   * The relative imports that can be hot-replaced without reloading the
+   *  locals module, by assigning to the properties of the locals object.
+   */
+  hotImports: HotImport[];
+  bindings: LocalBinding[];
+}
+
+export interface ChangedParts {
+  locals: boolean;
+  /**
+   * Whether each main module of the new output has changed.
+   */
+  mains: boolean[];
+}
+
+/**
+ * Compares the fingerprints of two compilations of the same file, so that
+ *  only the changed modules have to be reloaded.
+ */
+export function getChangedParts(
+  prev: CompileOutput,
+  next: CompileOutput
+): ChangedParts {
   return {
-    locals: parseResult.localsSrc.toString(),
-    main: parseResult.mainSrc.toString(),
+    locals: prev.localsFingerprint !== next.localsFingerprint,
+    mains: next.mains.map(
+      (main, i) => prev.mains[i]?.fingerprint !== main.fingerprint
+    ),
   };
 }
+
+export interface CompileResult {
+  /**
+   * `null` if there are errors in `diagnostics`.
+   */
+  output: CompileOutput | null;
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Splits an entry file into a locals module and a main module for each
+ *  `app(...)` call.
+ */
+export function compile(
+  src: string,
+  options: CompileOptions = {}
+): CompileResult {
+  const {
+    filename = "in.ts",
+    localsName = defaultLocalsName,
+    // Type annotations are only emitted when the input is TypeScript.
+    target = /\.[cm]?tsx?$/.test(filename) ? "ts" : "js",
+  } = options;
+  const typed = target === "ts";
+  const diagnostics: Diagnostic[] = [];
+  try {
+    const parseResult = parse(src, filename, options);
+    diagnostics.push(...checkLocals(parseResult));
+    const bindings = getBindings(parseResult, typed, diagnostics);
+    const localsTypes = typed ? getLocalsTypes(parseResult, bindings) : null;
+    const localsScope = new Scope("module");
+    for (const { name } of bindings) {
+      localsScope.declare(name);
+    }
+    const readonlyLocals = new Set(
+      bindings.filter((b) => b.readonly).map((b) => b.name)
+    );
+    const referencedLocals = new Set<string>();
+    const inputDir = posix.dirname(filename);
+    const importBase = inputDir === "." ? null : inputDir;
+    const references = parseResult.mains.map((main) => {
+      const ctx: ProcessContext = {
+        src: main.src,
+        diagnostics,
+        readonlyLocals,
+        referencedLocals,
+        references: [],
+        localsName,
+        importBase,
+      };
+      // The plugin chain, e.g. `app.use(Plugin, opts)`, is processed as well.
+      processExpr(main.ast, ctx, localsScope);
+      wrapMain(
+        main,
+        parseResult.appImports,
+        typed ? options.localsModule ?? "./locals" : null,
+        localsTypes,
+        localsName
+      );
+      return ctx.references;
+    });
+    if (diagnostics.some((d) => d.severity === "error")) {
+      return { output: null, diagnostics };
+    }
+    const exportedBindings = options.exportAllLocals
+      ? bindings
+      : bindings.filter((b) => referencedLocals.has(b.name));
+    rebaseImports(parseResult, importBase, diagnostics);
+    wrapHmrContext(parseResult, options.hmrId ?? filename);
+    appendExport(parseResult, exportedBindings, localsTypes, localsName);
+    return {
+      output: {
+        locals: parseResult.localsSrc.toString(),
+        localsMap: generateMap(parseResult.localsSrc, filename),
+        mains: parseResult.mains.map((main, i) => ({
+          code: main.src.toString(),
+          map: generateMap(main.src, filename),
+          range: getRange(main.ast)!,
+          references: references[i],
+          fingerprint: fingerprint([main.ast], bindings, localsTypes),
+        })),
+        localsFingerprint: fingerprint(parseResult.localsAst, exportedBindings),
+        hotImports: getHotImports(parseResult, exportedBindings),
+        unusedLocals: bindings
+          .filter((b) => !referencedLocals.has(b.name))
+          .map((b) => b.name),
+        bindings: bindings.map(({ name, readonly }) => ({
+          name,
+          readonly,
+          exported: exportedBindings.some((b) => b.name === name),
+        })),
+      },
+      diagnostics,
+    };
+  } catch (e) {
+    if (e instanceof CompileError) {
+      diagnostics.push(e.diagnostic);
+    } else if (e instanceof SyntaxError && "loc" in e) {
+      diagnostics.push(fromSyntaxError(e));
+    } else {
+      throw e;
+    }
+    return { output: null, diagnostics };
+  }
+}
@@ -0,0 +1,136 @@
+import type t from "@babel/types";
+
+export type DiagnosticSeverity = "error" | "warning";
+
+/**
+ * A position in the input file. `line` is 1-based and `column` is 0-based,
+ *  the same as in Babel.
+ */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export interface Diagnostic {
+  /**
+   * A stable identifier of the kind of the diagnostic, e.g. `no-app-call`.
+   */
+  code: string;
+  message: string;
+  severity: DiagnosticSeverity;
+  range: SourceRange | null;
+}
+
+/**
+ * A node or a comment, which diagnostics can be reported on.
+ */
+export type Locatable = t.Node | t.Comment;
+
+export function getRange(
+  node: Locatable | null | undefined
+): SourceRange | null {
+  if (!node?.loc) return null;
+  return {
+    start: { line: node.loc.start.line, column: node.loc.start.column },
+    end: { line: node.loc.end.line, column: node.loc.end.column },
+  };
+}
+
+/**
+ * Thrown while compiling to abort with an error diagnostic.
+ */
+export class CompileError extends Error {
+  constructor(public readonly diagnostic: Diagnostic) {
+    super(diagnostic.message);
+    this.name = "CompileError";
+  }
+}
+
+export function createDiagnostic(
+  severity: DiagnosticSeverity,
+  code: string,
+  message: string,
+  node?: Locatable | null
+): Diagnostic {
+  return { code, message, severity, range: getRange(node) };
+}
+
+export function error(code: string, message: string, node?: Locatable | null) {
+  return new CompileError(createDiagnostic("error", code, message, node));
+}
+
+export function warning(
+  code: string,
+  message: string,
+  node?: Locatable | null
+) {
+  return createDiagnostic("warning", code, message, node);
+}
+
+/**
+ * Converts a syntax error thrown by `@babel/parser` to a diagnostic.
+ */
+export function fromSyntaxError(err: SyntaxError): Diagnostic {
+  const { loc } = err as { loc?: SourcePosition };
+  const position = loc && { line: loc.line, column: loc.column };
+  return {
+    code: "syntax-error",
+    // Babel appends the position to the message.
+    message: err.message.replace(/ \(\d+:\d+\)$/, ""),
+    severity: "error",
+    range: position ? { start: position, end: position } : null,
+  };
+}
+
+const contextLines = 2;
+
+/**
+ * Formats a diagnostic with a code frame for terminal output, e.g.
+ *
+ * ```
+ * in/in.ts:3:2 - error not-implemented: Not implemented: DoExpression
+ *
+ *   2 | app((_) => {
+ * > 3 |   do { 1 };
+ *     |   ^^^^^^^^
+ *   4 | });
+ * ```
+ */
+export function formatDiagnostic(
+  diagnostic: Diagnostic,
+  src: string,
+  filename: string
+) {
+  const { code, message, severity, range } = diagnostic;
+  if (!range) return `${filename} - ${severity} ${code}: ${message}`;
+
+  const { start, end } = range;
+  let str = `${filename}:${start.line}:${
+    start.column + 1
+  } - ${severity} ${code}: ${message}\n\n`;
+
+  const lines = src.split(/\r?\n/);
+  const first = Math.max(start.line - contextLines, 1);
+  const last = Math.min(end.line + contextLines, lines.length);
+  const gutterWidth = String(last).length;
+  for (let line = first; line <= last; line++) {
+    const text = lines[line - 1];
+    const gutter = String(line).padStart(gutterWidth);
+    const marked = line >= start.line && line <= end.line;
+    str += `${marked ? ">" : " "} ${gutter} |${text ? " " + text : ""}\n`;
+    if (marked) {
+      const from = line === start.line ? start.column : 0;
+      const to = line === end.line ? end.column : text.length;
+      const markerPadding = " ".repeat(gutterWidth);
+      str += `  ${markerPadding} | ${" ".repeat(from)}${"^".repeat(
+        Math.max(to - from, 1)
+      )}\n`;
+    }
+  }
+  return str;
+}
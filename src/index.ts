@@ -1,8 +1,266 @@
-import { compile } from "./compile.js";
-import { writeFileSync, readFileSync } from "fs";
-
-setTimeout(() => {
-  const result = compile(readFileSync("in/in.ts", "utf-8"));
-  writeFileSync("out/locals.ts", result.locals);
-  writeFileSync("out/main.ts", result.main);
-});
+#!/usr/bin/env node
+import fg from "fast-glob";
+import { existsSync, mkdirSync, readFileSync, watch, writeFileSync } from "fs";
+import { basename, dirname, extname, join, relative, resolve, sep } from "path";
+import { parseArgs } from "util";
+import {
+  CompileOptions,
+  CompileOutput,
+  CompileResult,
+  compile,
+  getChangedParts,
+  isAppEntry,
+} from "./compile.js";
+import { formatDiagnostic } from "./diagnostics.js";
+
+const usage = `Usage: refina-hmr <build|watch> <glob...> [options]
+
+Compiles each file matched by the globs that calls \`app(...)\` at the top
+ level into <out-dir>/<directory relative to root>/<name>/{locals,main}.ts
+
+Options:
+  -o, --out-dir <dir>      The directory to write to (default: out)
+  -r, --root <dir>         The directory whose structure is mirrored
+                           (default: the common base of the globs)
+  -m, --app-module <name>  A module that exports Refina's \`app\`
+                           (repeatable, default: refina, refina-core)
+      --all-locals         Export the locals not referenced by the app mains
+  -h, --help               Print this message`;
+
+/**
+ * The delay to collect the events of one save, as editors usually
+ *  write a file in several steps.
+ */
+const watchDelay = 50;
+
+interface CliOptions {
+  patterns: string[];
+  outDir: string;
+  root: string;
+  compileOptions: CompileOptions;
+}
+
+function getCommonDir(a: string, b: string) {
+  const aParts = a.split(sep);
+  const bParts = b.split(sep);
+  let i = 0;
+  while (i < aParts.length && aParts[i] === bParts[i]) i++;
+  return aParts.slice(0, i).join(sep) || sep;
+}
+
+/**
+ * The directories that contain all the files matched by the globs.
+ */
+function getBases(patterns: string[]) {
+  return [
+    ...new Set(fg.generateTasks(patterns).map((task) => resolve(task.base))),
+  ];
+}
+
+function findFiles({ patterns, outDir }: CliOptions) {
+  const files = fg.sync(patterns, {
+    absolute: true,
+    ignore: ["**/node_modules/**", `${fg.escapePath(outDir)}/**`],
+  });
+  return new Set(files.map((file) => resolve(file)));
+}
+
+/**
+ * @returns Whether the file is written.
+ */
+function writeIfChanged(file: string, content: string) {
+  if (existsSync(file) && readFileSync(file, "utf-8") === content) return false;
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, content);
+  return true;
+}
+
+/**
+ * Compiles an entry file and writes the changed outputs.
+ *
+ * @param results The previous outputs of the entry files, which are
+ *  updated with the new output.
+ * @returns Whether the file is compiled without errors, or `null` if it is
+ *  not an app entry.
+ */
+function compileEntry(
+  file: string,
+  options: CliOptions,
+  results: Map<string, CompileOutput>
+) {
+  const displayName = relative(process.cwd(), file);
+  let src: string;
+  try {
+    src = readFileSync(file, "utf-8");
+  } catch (e) {
+    console.error(`${displayName} - error: ${(e as Error).message}`);
+    return false;
+  }
+  // The globs also match the modules the entries import, e.g. components.
+  //  A previous entry is still compiled, to report why it is no longer one,
+  //  and so is a file with syntax errors, to report them.
+  if (
+    !results.has(file) &&
+    isAppEntry(src, file, options.compileOptions) === false
+  )
+    return null;
+
+  const ext = extname(file);
+  const entryOutDir = join(
+    options.outDir,
+    relative(options.root, dirname(file)),
+    basename(file, ext)
+  );
+  let result: CompileResult;
+  try {
+    result = compile(src, {
+      ...options.compileOptions,
+      filename: relative(entryOutDir, file),
+    });
+  } catch (e) {
+    // An internal error shouldn't stop watching the other files.
+    console.error(`${displayName} - error: ${(e as Error).stack}`);
+    return false;
+  }
+  const { output, diagnostics } = result;
+  for (const diagnostic of diagnostics) {
+    console.error(formatDiagnostic(diagnostic, src, displayName));
+  }
+  if (!output) return false;
+  if (output.unusedLocals.length > 0) {
+    console.log(
+      `${displayName} - unused locals: ${output.unusedLocals.join(", ")}`
+    );
+  }
+
+  const prev = results.get(file);
+  results.set(file, output);
+  const outputs = [
+    {
+      name: `locals${ext}`,
+      code: output.locals,
+      map: output.localsMap,
+      // Rewriting the locals module would make bundlers reload it and reset
+      //  the state, so edits to only whitespace and comments are skipped,
+      //  along with its source map, which has to match the code on disk.
+      //  Reloading a main module keeps the state.
+      skip: !!prev && !getChangedParts(prev, output).locals,
+    },
+    ...output.mains.map(({ code, map }, i) => ({
+      name: `${i === 0 ? "main" : `main-${i}`}${ext}`,
+      code,
+      map,
+      skip: false,
+    })),
+  ];
+  for (const { name, code, map, skip } of outputs) {
+    if (skip) continue;
+    const path = join(entryOutDir, name);
+    const written = [
+      writeIfChanged(path, `${code}\n//# sourceMappingURL=${name}.map\n`),
+      writeIfChanged(`${path}.map`, map.toString()),
+    ];
+    if (written.some(Boolean)) {
+      console.log(`${displayName} -> ${relative(process.cwd(), path)}`);
+    }
+  }
+  return true;
+}
+
+/**
+ * @returns Whether all the entry files are compiled without errors.
+ */
+function build(
+  options: CliOptions,
+  results = new Map<string, CompileOutput>()
+) {
+  let ok = true;
+  let entryCount = 0;
+  for (const file of findFiles(options)) {
+    const compiled = compileEntry(file, options, results);
+    if (compiled === null) continue;
+    entryCount++;
+    if (!compiled) ok = false;
+  }
+  if (entryCount === 0) {
+    console.error(`No app entry files match ${options.patterns.join(", ")}`);
+    return false;
+  }
+  return ok;
+}
+
+function watchEntries(options: CliOptions) {
+  const results = new Map<string, CompileOutput>();
+  build(options, results);
+
+  const changed = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const flush = () => {
+    // Re-match the globs, since the changed files may be new entries.
+    const files = findFiles(options);
+    for (const file of changed) {
+      if (files.has(file)) compileEntry(file, options, results);
+    }
+    changed.clear();
+  };
+
+  for (const base of getBases(options.patterns)) {
+    watch(base, { recursive: true }, (_, filename) => {
+      if (!filename) return;
+      changed.add(resolve(base, filename));
+      clearTimeout(timer);
+      timer = setTimeout(flush, watchDelay);
+    });
+  }
+  console.log(`Watching ${options.patterns.join(", ")}`);
+}
+
+function main(args: string[]) {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        "out-dir": { type: "string", short: "o", default: "out" },
+        root: { type: "string", short: "r" },
+        "app-module": { type: "string", short: "m", multiple: true },
+        "all-locals": { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (e) {
+    console.error(`${(e as Error).message}\n\n${usage}`);
+    return false;
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(usage);
+    return true;
+  }
+
+  const [command, ...patterns] = positionals;
+  if ((command !== "build" && command !== "watch") || patterns.length === 0) {
+    console.error(usage);
+    return false;
+  }
+
+  const options: CliOptions = {
+    patterns,
+    outDir: resolve(values["out-dir"]!),
+    root: values.root
+      ? resolve(values.root)
+      : getBases(patterns).reduce(getCommonDir),
+    compileOptions: {
+      appModules: values["app-module"],
+      exportAllLocals: values["all-locals"],
+    },
+  };
+  if (command === "watch") {
+    watchEntries(options);
+    return true;
+  }
+  return build(options);
+}
+
+if (!main(process.argv.slice(2))) process.exitCode = 1;
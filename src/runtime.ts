@@ -0,0 +1,313 @@
+/**
+ * The render function passed to `app(...)`.
+ */
+export type AppMain = (_: any) => void;
+
+/**
+ * The default export of a generated main module.
+ */
+export type MainFactory<L extends object> = (locals: L) => AppMain;
+
+/**
+ * The part of a mounted Refina app used by the runtime.
+ */
+export interface AppLike {
+  update(): void;
+}
+
+/**
+ * The `__mount__` export of a generated main module,
+ *  which calls `app(...)` with its plugin chain.
+ */
+export type MountFn<L extends object> = (locals: L, main: AppMain) => AppLike;
+
+/**
+ * The exports of the generated locals module.
+ */
+export interface LocalsModule<L extends object> {
+  default: L;
+  /**
+   * The declaration signatures of the mutable bindings, or `keep` for the
+   *  ones annotated with `@hmr-keep`.
+   */
+  __signatures__: Record<string, string>;
+}
+
+/**
+ * The exports of a generated main module.
+ */
+export interface MainModule<L extends object> {
+  default: MainFactory<L>;
+  __mount__: MountFn<L>;
+}
+
+export interface RehydrateReport {
+  /**
+   * The mutable bindings whose values are taken from the previous instance.
+   */
+  kept: string[];
+  /**
+   * The mutable bindings whose declarations have changed,
+   *  so they are reset to their new initial values.
+   */
+  reset: string[];
+}
+
+export interface HotApps<L extends object> {
+  /**
+   * The mounted apps, in the order of the main modules.
+   */
+  readonly apps: AppLike[];
+  readonly locals: L;
+
+  /**
+   * Swaps in the render function of a new main module and re-renders.
+   *
+   * The locals object is kept, so the state of the app survives.
+   *  The plugin chain is not re-applied.
+   */
+  replaceMain(index: number, mod: MainModule<L>): void;
+
+  /**
+   * Swaps in a new instance of the locals module and re-renders all apps.
+   *
+   * Mutable bindings whose declarations are unchanged get their values
+   *  from the previous instance.
+   */
+  replaceLocals(mod: LocalsModule<L>): RehydrateReport;
+
+  /**
+   * Swaps in the updated modules of one hot update, then re-renders each
+   *  app once.
+   *
+   * The locals module is replaced first, so the new mains never run
+   *  against the old locals object, which lacks the bindings they add.
+   *
+   * @param mains The new main modules by index, `undefined` if unchanged.
+   */
+  replace(
+    locals: LocalsModule<L> | undefined,
+    mains: (MainModule<L> | undefined)[]
+  ): void;
+
+  /**
+   * The report of the last replacement of the locals module,
+   *  `null` if it has not been replaced.
+   */
+  readonly lastReport: RehydrateReport | null;
+}
+
+export type HmrData = Record<string, any>;
+
+interface LocalsInstance {
+  disposers: ((data: HmrData) => void)[];
+  data: HmrData;
+}
+
+/**
+ * The latest instance of the locals module of each entry file, by HMR id.
+ */
+const localsInstances = new Map<string, LocalsInstance>();
+/**
+ * The instance whose top-level code is being evaluated.
+ */
+let evaluatingLocals: LocalsInstance | null = null;
+
+/**
+ * Called by the generated locals module before the top-level code of the
+ *  entry file. Runs the dispose hooks of the previous instance, which fill
+ *  the data of the new instance.
+ */
+export function beginLocals(hmrId: string) {
+  const prev = localsInstances.get(hmrId);
+  const data: HmrData = {};
+  for (const dispose of prev?.disposers ?? []) {
+    dispose(data);
+  }
+  evaluatingLocals = { disposers: [], data };
+  localsInstances.set(hmrId, evaluatingLocals);
+}
+
+/**
+ * Called by the generated locals module after the top-level code of the
+ *  entry file.
+ */
+export function endLocals() {
+  evaluatingLocals = null;
+}
+
+function getEvaluatingLocals(fn: string) {
+  if (!evaluatingLocals)
+    throw new Error(
+      `${fn}() must be called at the top level of an app entry file`
+    );
+  return evaluatingLocals;
+}
+
+/**
+ * Registers a function to run before a new version of the entry file is
+ *  evaluated, e.g. to clear timers and remove event listeners.
+ *
+ * The function can store values in `data`, which the new version gets
+ *  from `getHmrData()`.
+ *
+ * @example
+ * ```ts
+ * const socket = getHmrData().socket ?? new WebSocket(url);
+ * onHmrDispose((data) => {
+ *   data.socket = socket;
+ * });
+ * ```
+ */
+export function onHmrDispose(fn: (data: HmrData) => void) {
+  getEvaluatingLocals("onHmrDispose").disposers.push(fn);
+}
+
+/**
+ * The data stored by the dispose hooks of the previous version of the
+ *  entry file. Empty when the entry file is first evaluated.
+ */
+export function getHmrData<T extends HmrData = HmrData>(): Partial<T> {
+  return getEvaluatingLocals("getHmrData").data as Partial<T>;
+}
+
+/**
+ * The mounted apps of each locals object, used to re-render them when
+ *  an imported module is replaced.
+ */
+const mountedApps = new WeakMap<object, AppLike[]>();
+
+/**
+ * Assigns the exports of a new version of an imported module to the
+ *  locals object, and re-renders the apps using it.
+ *
+ * Called by the locals module when it accepts an update of a module it
+ *  imports, so the locals module is not reloaded and its state is kept.
+ *
+ * @param values The new values of the import bindings, by local name.
+ */
+export function replaceImports(
+  locals: object,
+  values: Record<string, unknown>
+) {
+  Object.assign(locals, values);
+  for (const app of mountedApps.get(locals) ?? []) {
+    app.update();
+  }
+}
+
+/**
+ * The mounted apps of each entry file, by HMR id.
+ */
+const hotAppsById = new Map<string, HotApps<object>>();
+
+/**
+ * The apps mounted from an entry file by the Vite plugin, e.g. to inspect
+ *  `lastReport` after a hot update.
+ *
+ * @param hmrId The absolute path of the entry file.
+ */
+export function getHotApps(hmrId: string): HotApps<object> | undefined {
+  return hotAppsById.get(hmrId);
+}
+
+/**
+ * The signature of the bindings annotated with `@hmr-keep`.
+ */
+const keepSignature = "keep";
+
+function rehydrate<L extends object>(
+  from: LocalsModule<L>,
+  to: LocalsModule<L>
+): RehydrateReport {
+  const report: RehydrateReport = { kept: [], reset: [] };
+  for (const [name, signature] of Object.entries(to.__signatures__)) {
+    if (!(name in from.__signatures__)) continue;
+    // `@hmr-keep` bindings are kept even if the annotation was just added.
+    if (
+      signature === keepSignature ||
+      from.__signatures__[name] === signature
+    ) {
+      Reflect.set(to.default, name, Reflect.get(from.default, name));
+      report.kept.push(name);
+    } else {
+      report.reset.push(name);
+    }
+  }
+  return report;
+}
+
+/**
+ * Mounts the Refina apps of an entry file from the generated locals module
+ *  and main modules.
+ *
+ * @example
+ * ```ts
+ * import * as locals from "./out/locals";
+ * import * as main from "./out/main";
+ *
+ * const hotApps = mount(locals, [main]);
+ * import.meta.hot?.accept("./out/main", (mod) => {
+ *   if (mod) hotApps.replaceMain(0, mod as typeof main);
+ * });
+ * ```
+ */
+export function mount<L extends object>(
+  localsModule: LocalsModule<L>,
+  mainModules: MainModule<L>[],
+  hmrId?: string
+): HotApps<L> {
+  let currentLocals = localsModule;
+  const factories = mainModules.map((mod) => mod.default);
+  const mains = factories.map((factory) => factory(localsModule.default));
+  // Refina holds the main functions for the lifetime of the apps,
+  //  so they have to forward to the current render functions.
+  const apps = mainModules.map((mod, i) =>
+    mod.__mount__(localsModule.default, (_) => mains[i](_))
+  );
+  mountedApps.set(localsModule.default, apps);
+  let lastReport: RehydrateReport | null = null;
+
+  const swapLocals = (mod: LocalsModule<L>) => {
+    lastReport = rehydrate(currentLocals, mod);
+    mountedApps.delete(currentLocals.default);
+    mountedApps.set(mod.default, apps);
+    currentLocals = mod;
+  };
+  const hotApps: HotApps<L> = {
+    apps,
+    get locals() {
+      return currentLocals.default;
+    },
+    get lastReport() {
+      return lastReport;
+    },
+    replaceMain(index, mod) {
+      factories[index] = mod.default;
+      mains[index] = mod.default(currentLocals.default);
+      apps[index].update();
+    },
+    replaceLocals(mod) {
+      swapLocals(mod);
+      factories.forEach((factory, i) => {
+        mains[i] = factory(mod.default);
+        apps[i].update();
+      });
+      return lastReport!;
+    },
+    replace(locals, newMains) {
+      if (locals) swapLocals(locals);
+      newMains.forEach((mod, i) => {
+        if (mod) factories[i] = mod.default;
+      });
+      factories.forEach((factory, i) => {
+        // Without a new locals object, the unchanged mains keep rendering.
+        if (!locals && !newMains[i]) return;
+        mains[i] = factory(currentLocals.default);
+        apps[i].update();
+      });
+    },
+  };
+  if (hmrId !== undefined) hotAppsById.set(hmrId, hotApps);
+  return hotApps;
+}
@@ -0,0 +1,205 @@
+import t from "@babel/types";
+import { error } from "./diagnostics.js";
+
+/**
+ * Collects the names bound by a declaration pattern, e.g. `a`, `b`, `c`
+ *  and `d` in `const { a, b: [b, c = 1], ...d } = obj`.
+ */
+export function getPatternNames(ast: t.LVal, names: string[] = []): string[] {
+  switch (ast.type) {
+    case "Identifier":
+      names.push(ast.name);
+      break;
+
+    case "ArrayPattern":
+      for (const element of ast.elements) {
+        if (element) getPatternNames(element, names);
+      }
+      break;
+
+    case "ObjectPattern":
+      for (const property of ast.properties) {
+        switch (property.type) {
+          case "RestElement":
+            getPatternNames(property.argument, names);
+            break;
+          case "ObjectProperty":
+            // The value is the bound pattern, the key is only a property name.
+            if (!t.isLVal(property.value))
+              throw error(
+                "invalid-pattern",
+                "Object property must be a pattern",
+                property.value
+              );
+            getPatternNames(property.value, names);
+            break;
+          default:
+            const _exhaustiveCheck: never = property;
+        }
+      }
+      break;
+
+    case "AssignmentPattern":
+      getPatternNames(ast.left, names);
+      break;
+
+    case "RestElement":
+      getPatternNames(ast.argument, names);
+      break;
+
+    case "TSParameterProperty":
+      getPatternNames(ast.parameter, names);
+      break;
+
+    case "MemberExpression":
+    case "TSAsExpression":
+    case "TSSatisfiesExpression":
+    case "TSTypeAssertion":
+    case "TSNonNullExpression":
+      throw error(
+        "invalid-pattern",
+        "Unsupported binding type: " + ast.type,
+        ast
+      );
+
+    default:
+      const _exhaustiveCheck: never = ast;
+  }
+  return names;
+}
+
+export type ScopeKind = "module" | "function" | "block" | "catch" | "class";
+
+/**
+ * A lexical scope of the app main.
+ *
+ * The root scope is the locals module, which holds the locals bindings.
+ *  An identifier is rewritten to `(__locals__.x)` only if it resolves to
+ *  the root scope.
+ */
+export class Scope {
+  private readonly names = new Set<string>();
+
+  constructor(
+    public readonly kind: ScopeKind,
+    public readonly parent: Scope | null = null
+  ) {}
+
+  child(kind: ScopeKind) {
+    return new Scope(kind, this);
+  }
+
+  declare(name: string) {
+    this.names.add(name);
+  }
+
+  declarePattern(ast: t.LVal) {
+    for (const name of getPatternNames(ast)) {
+      this.declare(name);
+    }
+  }
+
+  /**
+   * The scope that `var` declarations are hoisted to.
+   */
+  get functionScope(): Scope {
+    let scope: Scope = this;
+    while (scope.kind !== "function" && scope.parent) scope = scope.parent;
+    return scope;
+  }
+
+  /**
+   * Whether the name resolves to a binding of the root scope.
+   */
+  isLocal(name: string) {
+    for (let scope: Scope | null = this; scope; scope = scope.parent) {
+      if (scope.names.has(name)) return scope.parent === null;
+    }
+    return false;
+  }
+}
+
+/**
+ * Declares the `var` declarations in a function body, without entering
+ *  nested functions.
+ */
+export function hoistVar(ast: t.Statement, scope: Scope) {
+  switch (ast.type) {
+    case "VariableDeclaration":
+      if (ast.kind === "var") {
+        for (const declaration of ast.declarations) {
+          scope.declarePattern(declaration.id);
+        }
+      }
+      break;
+
+    case "BlockStatement":
+      for (const stmt of ast.body) hoistVar(stmt, scope);
+      break;
+
+    case "IfStatement":
+      hoistVar(ast.consequent, scope);
+      if (ast.alternate) hoistVar(ast.alternate, scope);
+      break;
+
+    case "ForStatement":
+      if (ast.init?.type === "VariableDeclaration") hoistVar(ast.init, scope);
+      hoistVar(ast.body, scope);
+      break;
+
+    case "ForInStatement":
+    case "ForOfStatement":
+      if (ast.left.type === "VariableDeclaration") hoistVar(ast.left, scope);
+      hoistVar(ast.body, scope);
+      break;
+
+    case "DoWhileStatement":
+    case "WhileStatement":
+    case "LabeledStatement":
+    case "WithStatement":
+      hoistVar(ast.body, scope);
+      break;
+
+    case "SwitchStatement":
+      for (const caseClause of ast.cases) {
+        for (const stmt of caseClause.consequent) hoistVar(stmt, scope);
+      }
+      break;
+
+    case "TryStatement":
+      hoistVar(ast.block, scope);
+      if (ast.handler) hoistVar(ast.handler.body, scope);
+      if (ast.finalizer) hoistVar(ast.finalizer, scope);
+      break;
+  }
+}
+
+/**
+ * Declares the lexical declarations directly in a block, so that they
+ *  shadow the locals in the whole block, including their TDZ.
+ *
+ * Function declarations are block-scoped as well, since modules are
+ *  always in strict mode.
+ */
+export function hoistLexical(body: t.Statement[], scope: Scope) {
+  for (const stmt of body) {
+    switch (stmt.type) {
+      case "VariableDeclaration":
+        if (stmt.kind !== "var") {
+          for (const declaration of stmt.declarations) {
+            scope.declarePattern(declaration.id);
+          }
+        }
+        break;
+
+      case "FunctionDeclaration":
+      case "ClassDeclaration":
+        if (stmt.id) scope.declare(stmt.id.name);
+        break;
+
+      case "TSEnumDeclaration":
+        if (!stmt.declare) scope.declare(stmt.id.name);
+        break;
+    }
+  }
+}
@@ -0,0 +1,263 @@
+import { readFileSync } from "fs";
+import { basename } from "path";
+import { fileURLToPath } from "url";
+import type { Logger, ModuleNode, Plugin } from "vite";
+import {
+  CompileOptions,
+  CompileOutput,
+  HotImport,
+  compile,
+  defaultLocalsName,
+  getChangedParts,
+  isAppEntry,
+} from "./compile.js";
+import { formatDiagnostic } from "./diagnostics.js";
+
+const queryKey = "refina-hmr";
+const errorEvent = "refina-hmr:error";
+const recoverEvent = "refina-hmr:recover";
+const runtimePath = fileURLToPath(new URL("./runtime", import.meta.url));
+
+/**
+ * `locals`, or `main-<index>` for the main module of the nth `app(...)` call.
+ */
+type Part = "locals" | `main-${number}`;
+
+function getPartId(file: string, part: Part) {
+  return `${file}?${queryKey}=${part}`;
+}
+
+function parseId(id: string): [file: string, part: Part | null] {
+  const [file, query] = id.split("?", 2);
+  const part = new URLSearchParams(query).get(queryKey);
+  return [
+    file,
+    part === "locals" || /^main-\d+$/.test(part!) ? (part as Part) : null,
+  ];
+}
+
+function generateEntry(file: string, mainCount: number) {
+  // Relative specifiers resolve the same way in imports and in `accept()`.
+  const specifier = `./${basename(file)}`;
+  const localsId = JSON.stringify(getPartId(specifier, "locals"));
+  const mainIds = Array.from({ length: mainCount }, (_, i) =>
+    JSON.stringify(getPartId(specifier, `main-${i}`))
+  );
+  const mainNames = mainIds.map((_, i) => `__main${i}__`);
+  return `import { mount } from ${JSON.stringify(runtimePath)};
+import * as __locals__ from ${localsId};
+${mainIds
+  .map((id, i) => `import * as ${mainNames[i]} from ${id};\n`)
+  .join("")}const hotApps = mount(__locals__, [${mainNames.join(
+    ", "
+  )}], ${JSON.stringify(file)});
+if (import.meta.hot) {
+  import.meta.hot.accept([${localsId}, ${mainIds.join(
+    ", "
+  )}], ([locals, ...mains]) => hotApps.replace(locals, mains));
+${generateOverlay(file)}}
+`;
+}
+
+/**
+ * Shows the errors of a failed hot update over the page, while the last
+ *  successfully compiled version of the app keeps running underneath.
+ *
+ * Vite's own error overlay is not used, since it makes the next update
+ *  reload the page if it is the first one.
+ */
+function generateOverlay(file: string) {
+  const fileStr = JSON.stringify(file);
+  return `  const overlay = document.createElement("pre");
+  overlay.style.cssText = ${JSON.stringify(
+    "position:fixed;inset:0;z-index:99999;margin:0;padding:24px;overflow:auto;" +
+      "background:rgba(24,24,24,0.92);color:#ff7b72;" +
+      "font:13px/1.5 ui-monospace,monospace;white-space:pre-wrap;cursor:pointer"
+  )};
+  overlay.title = "Click to dismiss";
+  overlay.onclick = () => overlay.remove();
+  import.meta.hot.on(${JSON.stringify(errorEvent)}, ({ file, message }) => {
+    if (file !== ${fileStr}) return;
+    overlay.textContent = message;
+    document.body.append(overlay);
+  });
+  import.meta.hot.on(${JSON.stringify(recoverEvent)}, ({ file }) => {
+    if (file === ${fileStr}) overlay.remove();
+  });
+`;
+}
+
+/**
+ * Accepts updates of the imported modules in the locals module, and swaps
+ *  their new exports into the locals object, so the locals module is not
+ *  reloaded.
+ */
+function generateHotImports(hotImports: HotImport[], localsName: string) {
+  if (hotImports.length === 0) return "";
+  const sources = hotImports.map(({ source }) => JSON.stringify(source));
+  const modNames = hotImports.map((_, i) => `__import${i}__`);
+  const replacements = hotImports.map(({ names }, i) => {
+    const values = Object.entries(names).map(([local, imported]) => {
+      const value =
+        imported === "*"
+          ? modNames[i]
+          : `${modNames[i]}[${JSON.stringify(imported)}]`;
+      return `${local}: ${value}`;
+    });
+    return `    if (${
+      modNames[i]
+    }) __replaceImports__(${localsName}, { ${values.join(", ")} });\n`;
+  });
+  return `
+import { replaceImports as __replaceImports__ } from ${JSON.stringify(
+    runtimePath
+  )};
+if (import.meta.hot) {
+  import.meta.hot.accept([${sources.join(", ")}], ([${modNames.join(
+    ", "
+  )}]) => {
+${replacements.join("")}  });
+}
+`;
+}
+
+export interface RefinaHmrOptions
+  extends Omit<CompileOptions, "filename" | "localsModule" | "hmrId"> {
+  /**
+   * The files to look for `app(...)` calls in.
+   *
+   * @default /\.[jt]sx?$/
+   */
+  include?: RegExp;
+  /**
+   * The files not to look for `app(...)` calls in, which takes precedence
+   *  over `include`.
+   *
+   * @default /[\\/]node_modules[\\/]/
+   */
+  exclude?: RegExp;
+}
+
+/**
+ * Splits Refina entry files into a locals module and a main module,
+ *  so that edits to the app main are hot-replaced without losing state.
+ */
+export default function refinaHmr(options: RefinaHmrOptions = {}): Plugin {
+  const include = options.include ?? /\.[jt]sx?$/;
+  // Dependencies, including the ones pre-bundled into `node_modules/.vite`.
+  const exclude = options.exclude ?? /[\\/]node_modules[\\/]/;
+  const results = new Map<string, CompileOutput>();
+  /**
+   * The files whose last hot update failed to compile.
+   */
+  const failed = new Set<string>();
+  let logger: Logger;
+
+  function compileFile(file: string, src: string) {
+    const { output, diagnostics } = compile(src, {
+      ...options,
+      filename: basename(file),
+      hmrId: file,
+      localsModule: getPartId(`./${basename(file)}`, "locals"),
+    });
+    const errors: string[] = [];
+    for (const diagnostic of diagnostics) {
+      const message = formatDiagnostic(diagnostic, src, file);
+      if (diagnostic.severity === "error") errors.push(message);
+      else logger.warn(message);
+    }
+    if (!output) throw new Error(errors.join("\n"));
+    results.set(file, output);
+    return output;
+  }
+
+  return {
+    name: "refina-hmr",
+    enforce: "pre",
+    apply: "serve",
+
+    configResolved(config) {
+      logger = config.logger;
+    },
+
+    load(id) {
+      const [file, part] = parseId(id);
+      if (!part) return;
+      const result =
+        results.get(file) ?? compileFile(file, readFileSync(file, "utf-8"));
+      if (part === "locals") {
+        return {
+          code:
+            result.locals +
+            generateHotImports(
+              result.hotImports,
+              options.localsName ?? defaultLocalsName
+            ),
+          map: result.localsMap,
+        };
+      }
+      const main = result.mains[Number(part.slice("main-".length))];
+      if (!main) throw new Error(`No main module ${part} in ${file}`);
+      return { code: main.code, map: main.map };
+    },
+
+    transform(code, id) {
+      if (
+        id.includes("?") ||
+        !include.test(id) ||
+        exclude.test(id) ||
+        // Syntax errors of other modules are left to Vite to report.
+        isAppEntry(code, id, options) !== true
+      )
+        return;
+      const result = compileFile(id, code);
+      return {
+        code: generateEntry(id, result.mains.length),
+        map: { mappings: "" },
+      };
+    },
+
+    async handleHotUpdate({ file, read, server, modules }) {
+      const prev = results.get(file);
+      if (!prev) return;
+      let result: CompileOutput;
+      try {
+        result = compileFile(file, await read());
+      } catch (e) {
+        // The last successful output is kept, so the app keeps running
+        //  until the file compiles again.
+        const message = (e as Error).message;
+        logger.error(message);
+        server.ws.send({
+          type: "custom",
+          event: errorEvent,
+          data: { file, message },
+        });
+        failed.add(file);
+        return [];
+      }
+      if (failed.delete(file)) {
+        server.ws.send({ type: "custom", event: recoverEvent, data: { file } });
+      }
+
+      // The entry module has to be regenerated, which causes a full reload.
+      if (result.mains.length !== prev.mains.length) return modules;
+
+      // Edits to only whitespace and comments don't reload the locals
+      //  module, which would reset the state.
+      const changed = getChangedParts(prev, result);
+      const affected: ModuleNode[] = [];
+      const localsModule = server.moduleGraph.getModuleById(
+        getPartId(file, "locals")
+      );
+      if (localsModule && changed.locals) affected.push(localsModule);
+      changed.mains.forEach((mainChanged, i) => {
+        const mainModule = server.moduleGraph.getModuleById(
+          getPartId(file, `main-${i}`)
+        );
+        if (mainModule && mainChanged) affected.push(mainModule);
+      });
+      return affected;
+    },
+  };
+}